@@ -1,13 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { MessageSquareText, Mic2, FileText, Sparkles, Moon, Sun, Globe, Code, ShieldAlert, Settings, GitMerge } from 'lucide-react';
+import { MessageSquareText, Mic2, FileText, Sparkles, Moon, Sun, Globe, Code, ShieldAlert, Settings, GitMerge, BarChart3, Search } from 'lucide-react';
 import ChatInterface from './components/ChatInterface';
 import LiveInterface from './components/LiveInterface';
 import Transcriber from './components/Transcriber';
 import CodegenInterface from './components/CodegenInterface'; // Import new CodegenInterface
 import MergeSimulatorInterface from './components/MergeSimulatorInterface'; // NEW: Import MergeSimulatorInterface
 import SettingsInterface from './components/SettingsInterface'; // Import SettingsInterface
-import { AppMode, Language, VoiceName, PREBUILT_VOICES } from './types'; // Import VoiceName and PREBUILT_VOICES
+import UsageDashboard from './components/UsageDashboard';
+import GlobalSearch from './components/GlobalSearch';
+import { AppMode, ChatPersona, Language, LiveInputSettings, ModelSettingsMap, ProviderSettings, SearchTarget, VoiceName, PREBUILT_VOICES } from './types'; // Import VoiceName and PREBUILT_VOICES
 import { translations } from './utils/localization';
+import { loadPersonas, savePersonas } from './services/personaStore';
+import { loadModelSettings, resolveModelSettings, saveModelSettings } from './services/modelRegistry';
+import { loadProviderSettings, saveProviderSettings } from './services/aiProvider';
+import { loadLiveInputSettings, saveLiveInputSettings } from './services/liveSettings';
+
+const SEARCH_SHORTCUT = /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘K' : 'Ctrl+K';
 
 const App: React.FC = () => {
   const [activeMode, setActiveMode] = useState<AppMode>(() => {
@@ -28,7 +36,14 @@ const App: React.FC = () => {
     // Default to 'Kore' if no voice is saved or if saved voice is not in PREBUILT_VOICES
     return (savedVoice && PREBUILT_VOICES.includes(savedVoice as VoiceName)) ? (savedVoice as VoiceName) : 'Kore';
   });
+  const [personas, setPersonas] = useState<ChatPersona[]>(loadPersonas);
+  const [modelSettings, setModelSettings] = useState<ModelSettingsMap>(loadModelSettings);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [liveInputSettings, setLiveInputSettings] = useState<LiveInputSettings>(loadLiveInputSettings);
   const [systemDissonance, setSystemDissonance] = useState<number | null>(null); // NEW: Global system dissonance for Codegen
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  // Search result waiting to be shown by its mode; cleared once handled so a remount does not jump again
+  const [searchTarget, setSearchTarget] = useState<SearchTarget | null>(null);
 
   useEffect(() => {
     const root = window.document.documentElement;
@@ -53,6 +68,43 @@ const App: React.FC = () => {
     localStorage.setItem('selectedVoice', selectedVoice);
   }, [selectedVoice]);
 
+  useEffect(() => {
+    savePersonas(personas);
+  }, [personas]);
+
+  useEffect(() => {
+    saveModelSettings(modelSettings);
+  }, [modelSettings]);
+
+  useEffect(() => {
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  useEffect(() => {
+    saveLiveInputSettings(liveInputSettings);
+  }, [liveInputSettings]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSelectSearchResult = (target: SearchTarget) => {
+    setIsSearchOpen(false);
+    setSearchTarget(target);
+    if (target.source === 'chat') setActiveMode(AppMode.Chat);
+    else if (target.source === 'transcript') setActiveMode(AppMode.Transcribe);
+    else setActiveMode(AppMode.Codegen);
+  };
+
+  const clearSearchTarget = () => setSearchTarget(null);
+
   const toggleTheme = () => setIsDarkMode(!isDarkMode);
   
   const toggleLanguage = () => {
@@ -60,6 +112,10 @@ const App: React.FC = () => {
   };
 
   const t = translations[language];
+  // Settings may hold a choice the mode cannot use; consumers only ever see the resolved form
+  const chatModelSettings = resolveModelSettings(AppMode.Chat, modelSettings[AppMode.Chat]);
+  const liveModelSettings = resolveModelSettings(AppMode.Live, modelSettings[AppMode.Live]);
+  const transcribeModelSettings = resolveModelSettings(AppMode.Transcribe, modelSettings[AppMode.Transcribe]);
 
   const getDissonanceColorClass = (score: number | null) => {
     if (score === null) return 'text-slate-500 dark:text-slate-400';
@@ -78,6 +134,14 @@ const App: React.FC = () => {
               AI
             </div>
             <span className="hidden lg:block ml-3 font-bold text-slate-800 dark:text-slate-100 text-sm xl:text-lg truncate">GEN-AETHE-VIVENS-AI</span>
+            {providerSettings.provider === 'mock' && (
+              <span
+                className="absolute top-1 right-1 lg:static lg:ml-2 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300"
+                title={t.sidebar.mockProviderTitle}
+              >
+                {t.sidebar.mockProvider}
+              </span>
+            )}
             {systemDissonance !== null && (
               <div className="hidden lg:flex items-center gap-1 ml-4 text-xs">
                 <ShieldAlert size={14} className={getDissonanceColorClass(systemDissonance)} />
@@ -89,6 +153,16 @@ const App: React.FC = () => {
           </div>
 
           <nav className="p-4 space-y-2">
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="w-full flex items-center gap-3 p-3 rounded-xl transition-all text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 hover:text-slate-700 dark:hover:text-slate-200 border border-slate-200 dark:border-slate-700"
+              title={t.search.title}
+            >
+              <Search size={22} />
+              <span className="hidden lg:block">{t.sidebar.search}</span>
+              <kbd className="hidden lg:block ml-auto text-[10px] font-mono text-slate-400">{SEARCH_SHORTCUT}</kbd>
+            </button>
+
             <button
               onClick={() => setActiveMode(AppMode.Chat)}
               className={`w-full flex items-center gap-3 p-3 rounded-xl transition-all ${
@@ -150,6 +224,18 @@ const App: React.FC = () => {
               <span className="hidden lg:block">{t.sidebar.mergeSimulator}</span>
             </button>
 
+            <button
+              onClick={() => setActiveMode(AppMode.Usage)}
+              className={`w-full flex items-center gap-3 p-3 rounded-xl transition-all ${
+                activeMode === AppMode.Usage
+                  ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 font-medium shadow-sm'
+                  : 'text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 hover:text-slate-700 dark:hover:text-slate-200'
+              }`}
+            >
+              <BarChart3 size={22} />
+              <span className="hidden lg:block">{t.sidebar.usage}</span>
+            </button>
+
             {/* Menu Settings Button */}
             <button
               onClick={() => setActiveMode(AppMode.Settings)}
@@ -203,11 +289,12 @@ const App: React.FC = () => {
       {/* Main Content Area */}
       <main className="flex-1 overflow-hidden p-4 lg:p-6 relative">
         <div className="h-full w-full max-w-6xl mx-auto">
-          {activeMode === AppMode.Chat && <ChatInterface translations={t} />} {/* Changed to t */}
-          {activeMode === AppMode.Live && <LiveInterface translations={t} selectedVoice={selectedVoice} setSelectedVoice={setSelectedVoice} />} {/* Changed to t */}
-          {activeMode === AppMode.Transcribe && <Transcriber translations={t} />} {/* Changed to t */}
-          {activeMode === AppMode.Codegen && <CodegenInterface translations={t.codegen} onUpdateSystemDissonance={setSystemDissonance} />}
+          {activeMode === AppMode.Chat && <ChatInterface translations={t.chat} personas={personas} modelSettings={chatModelSettings} searchTarget={searchTarget} onSearchTargetHandled={clearSearchTarget} />}
+          {activeMode === AppMode.Live && <LiveInterface translations={t} selectedVoice={selectedVoice} setSelectedVoice={setSelectedVoice} modelSettings={liveModelSettings} inputSettings={liveInputSettings} setInputSettings={setLiveInputSettings} />} {/* Changed to t */}
+          {activeMode === AppMode.Transcribe && <Transcriber translations={t} modelSettings={transcribeModelSettings} liveModel={liveModelSettings.model} searchTarget={searchTarget} onSearchTargetHandled={clearSearchTarget} />} {/* Changed to t */}
+          {activeMode === AppMode.Codegen && <CodegenInterface translations={t.codegen} onUpdateSystemDissonance={setSystemDissonance} searchTarget={searchTarget} onSearchTargetHandled={clearSearchTarget} />}
           {activeMode === AppMode.MergeSimulator && <MergeSimulatorInterface translations={t.mergeSimulator} />} {/* NEW */}
+          {activeMode === AppMode.Usage && <UsageDashboard translations={t.usage} />}
           {activeMode === AppMode.Settings && <SettingsInterface 
             translations={t.settings} 
             isDarkMode={isDarkMode} 
@@ -216,9 +303,22 @@ const App: React.FC = () => {
             toggleLanguage={toggleLanguage} 
             selectedVoice={selectedVoice}
             setSelectedVoice={setSelectedVoice}
+            personas={personas}
+            setPersonas={setPersonas}
+            modelSettings={modelSettings}
+            setModelSettings={setModelSettings}
+            providerSettings={providerSettings}
+            setProviderSettings={setProviderSettings}
           />}
         </div>
       </main>
+
+      <GlobalSearch
+        translations={t.search}
+        isOpen={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+        onSelect={handleSelectSearchResult}
+      />
     </div>
   );
 };
@@ -1,279 +1,1126 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User as UserIcon, BrainCircuit, Loader2, Paperclip, X, FileText } from 'lucide-react';
-import { createChatSession } from '../services/gemini';
-import { ChatMessage, Sender } from '../types';
-import { Chat, GenerateContentResponse } from '@google/genai';
-import { blobToBase64 } from '../services/audio';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Bot, User as UserIcon, BrainCircuit, Loader2, Paperclip, X, FileText, FileCode, Image as ImageIcon, Square, Pencil, RefreshCw, ChevronLeft, ChevronRight, Download, Drama, Wrench, BookOpen, Layers, ChevronDown, ChevronUp } from 'lucide-react';
+import { createChatSession, sendChatMessageStream, summarizeConversation, toGeminiHistory } from '../services/gemini';
+import { THINKING_BUDGET_OPTIONS, DEFAULT_THINKING_BUDGET, DEFAULT_CONTEXT_BUDGET, getModel } from '../services/modelRegistry';
+import { AttachmentKind, ChatCitation, ChatMessage, ChatPersona, Conversation, ConversationSummary, LibraryDocument, ModelSettings, SearchTarget, Sender } from '../types';
+import { PartListUnion } from '@google/genai';
+import {
+  listConversations,
+  createConversation,
+  saveConversation,
+  deleteConversation,
+  renameConversation,
+  setConversationPinned,
+  setConversationPersona,
+  setConversationSummaries,
+  setConversationTools,
+  sortConversations,
+} from '../services/conversationStore';
+import { findPersona } from '../services/personaStore';
+import { confirmWithinBudget } from '../services/usageStore';
+import { CHAT_TOOLS, getEnabledTools } from '../services/chatTools';
+import { ChatSession } from '../services/aiProvider';
+import { RequestStatus, classifyRequestError } from '../services/requestPolicy';
+import {
+  citedInReply,
+  deleteConversationDocuments,
+  getLibraryDocument,
+  listDocuments,
+  retrieveDocumentContext,
+} from '../services/documentStore';
+import ChatThreadList from './ChatThreadList';
+import MarkdownRenderer from './MarkdownRenderer';
+import ToolInvocationList from './ToolInvocationList';
+import DocumentLibrary from './DocumentLibrary';
+import {
+  BranchSelection,
+  getActivePath,
+  getPathBefore,
+  getSiblings,
+  selectBranch,
+  normalizeMessageTree,
+} from '../utils/messageTree';
+import { ChatExportKind, downloadConversation, parseChatExport } from '../utils/chatExport';
+import { planContext, selectMessagesToSummarize } from '../utils/contextWindow';
+import { estimateMessageTokens, estimateTextTokens, formatTokenCount } from '../utils/tokenEstimate';
+import {
+  ACCEPTED_FILE_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_TOTAL_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  AttachmentRejection,
+  attachmentDataUrl,
+  classifyFile,
+  formatFileSize,
+  readAttachment,
+  validateAttachments,
+} from '../utils/attachments';
+import { v4 as uuidv4 } from 'uuid';
 
 interface ChatInterfaceProps {
   translations: any; // Changed to any to accept the full translation object
+  personas: ChatPersona[];
+  modelSettings: ModelSettings; // Resolved chat settings from the model registry
+  searchTarget?: SearchTarget | null; // Global search hit to open
+  onSearchTargetHandled?: () => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ translations }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const ACTIVE_THREAD_KEY = 'activeChatThreadId';
+
+// Short title derived from the first user turn of a thread
+const deriveThreadTitle = (msg: ChatMessage): string => {
+  const source = msg.text.trim() || msg.attachments?.[0]?.name || '';
+  return source.length > 40 ? source.substring(0, 40) + '...' : source;
+};
+
+const ATTACHMENT_ICONS: Record<AttachmentKind, React.ElementType> = {
+  image: ImageIcon,
+  pdf: FileText,
+  text: FileCode,
+};
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ translations, personas, modelSettings, searchTarget, onSearchTargetHandled }) => {
+  // Every message of the thread, linked by parentId; edits and regenerations become sibling branches
+  const [messageNodes, setMessageNodes] = useState<ChatMessage[]>([]);
+  const [selectedBranches, setSelectedBranches] = useState<BranchSelection>({});
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState('');
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showToolsMenu, setShowToolsMenu] = useState(false);
+  const [showSummary, setShowSummary] = useState(false);
+  const [isCompacting, setIsCompacting] = useState(false);
+  const [requestStatus, setRequestStatus] = useState<RequestStatus | null>(null); // Offline queue or retry in progress
   const [inputValue, setInputValue] = useState('');
   const [isThinkingMode, setIsThinkingMode] = useState(false);
+  const [thinkingBudget, setThinkingBudget] = useState(modelSettings.thinkingBudget ?? DEFAULT_THINKING_BUDGET);
   const [isLoading, setIsLoading] = useState(false);
-  const [attachedFile, setAttachedFile] = useState<File | null>(null);
+  const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [libraryDocuments, setLibraryDocuments] = useState<LibraryDocument[]>([]);
+  const [hasLoadedConversations, setHasLoadedConversations] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   
-  const chatSessionRef = useRef<Chat | null>(null);
+  const chatSessionRef = useRef<ChatSession | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   // Fix: Corrected typo from HTMLDivSlement to HTMLDivElement
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const hasInitialized = useRef(false);
+  // Message to scroll to instead of the bottom once it is on the shown branch
+  const pendingJumpRef = useRef<string | null>(null);
+
+  // The branch currently shown, root to leaf
+  const messages = useMemo(() => getActivePath(messageNodes, selectedBranches), [messageNodes, selectedBranches]);
+
+  // Threads remember their persona; new threads inherit the one currently in use
+  const activeConversation = conversations.find(c => c.id === activeConversationId);
+  const activePersona = findPersona(personas, activeConversation?.personaId);
+  const enabledTools = getEnabledTools(activeConversation?.enabledTools);
+
+  // Which messages of the shown branch are still sent verbatim and which only through the summary
+  const contextBudget = modelSettings.contextBudget ?? DEFAULT_CONTEXT_BUDGET;
+  const contextPlan = useMemo(() => planContext(messages, activeConversation?.summaries), [messages, activeConversation?.summaries]);
+  const contextRatio = contextPlan.tokens / contextBudget;
+
+  // Budget choices the selected model accepts, plus the default configured in Settings
+  const model = getModel(modelSettings.model);
+  const thinkingBudgetOptions = useMemo(() => {
+    const [min, max] = model?.thinkingBudgetRange || [0, DEFAULT_THINKING_BUDGET];
+    const options = THINKING_BUDGET_OPTIONS.filter(budget => budget >= min && budget <= max);
+    if (modelSettings.thinkingBudget !== undefined && !options.includes(modelSettings.thinkingBudget)) {
+      options.push(modelSettings.thinkingBudget);
+    }
+    if (options.length === 0) options.push(max);
+    return options.sort((a, b) => a - b);
+  }, [model, modelSettings.thinkingBudget]);
 
   useEffect(() => {
-    // Initialize chat session
-    chatSessionRef.current = createChatSession(isThinkingMode);
-    
-    // Welcome message - only on first load
-    if (!hasInitialized.current) {
-      setMessages([
-        {
-          id: 'init',
-          role: Sender.Bot,
-          text: translations.welcome, // Use translations.chat.welcome
-          timestamp: Date.now(),
+    setThinkingBudget(modelSettings.thinkingBudget ?? thinkingBudgetOptions[thinkingBudgetOptions.length - 1]);
+  }, [modelSettings.model, modelSettings.thinkingBudget]);
+
+  // Object URLs for image thumbnails in the composer, released when the selection changes
+  const attachmentPreviews = useMemo(
+    () => attachedFiles.map(file => classifyFile(file) === 'image' ? URL.createObjectURL(file) : null),
+    [attachedFiles]
+  );
+  useEffect(() => () => attachmentPreviews.forEach(url => url && URL.revokeObjectURL(url)), [attachmentPreviews]);
+
+  const createWelcomeMessage = (): ChatMessage => ({
+    id: 'init',
+    role: Sender.Bot,
+    text: translations.welcome, // Use translations.chat.welcome
+    timestamp: Date.now(),
+    parentId: null,
+  });
+
+  // Show a stored thread; the Gemini session is rebuilt from the selected branch on every send
+  const openConversation = (stored: Conversation) => {
+    const conversation: Conversation = {
+      ...stored,
+      messages: normalizeMessageTree(stored.messages),
+      selectedBranches: stored.selectedBranches || {},
+    };
+    // Keep the list entry in sync so merely opening a thread is not treated as a change
+    setConversations(prev => prev.map(c => c.id === conversation.id ? conversation : c));
+    setActiveConversationId(conversation.id);
+    setMessageNodes(conversation.messages);
+    setSelectedBranches(conversation.selectedBranches!);
+    setEditingMessageId(null);
+    localStorage.setItem(ACTIVE_THREAD_KEY, conversation.id);
+  };
+
+  const handleCreateConversation = async () => {
+    try {
+      const conversation = await createConversation(translations.newThread, [createWelcomeMessage()], {}, activePersona.id);
+      setConversations(prev => sortConversations([conversation, ...prev]));
+      openConversation(conversation);
+      setIsThinkingMode(activePersona.defaultThinkingMode);
+    } catch (error) {
+      console.error("Failed to create conversation:", error);
+    }
+  };
+
+  useEffect(() => {
+    // Load stored threads - only on first load
+    if (hasInitialized.current) return;
+    hasInitialized.current = true;
+
+    const loadConversations = async () => {
+      try {
+        const stored = await listConversations();
+        setConversations(stored);
+        const lastActiveId = localStorage.getItem(ACTIVE_THREAD_KEY);
+        const initial = stored.find(c => c.id === lastActiveId) || stored[0];
+        if (initial) {
+          openConversation(initial);
+        } else {
+          await handleCreateConversation();
         }
-      ]);
-      hasInitialized.current = true;
+      } catch (error) {
+        console.error("Failed to load conversations:", error);
+        // Fall back to an unsaved session so chat still works without IndexedDB
+        setMessageNodes([createWelcomeMessage()]);
+      } finally {
+        setHasLoadedConversations(true);
+      }
+    };
+    loadConversations();
+  }, []);
+
+  // Open the thread holding a global search hit and switch to the branch it is on
+  useEffect(() => {
+    if (searchTarget?.source !== 'chat' || !hasLoadedConversations) return;
+    onSearchTargetHandled?.();
+
+    const conversation = conversations.find(c => c.id === searchTarget.conversationId);
+    if (!conversation) return;
+    if (!searchTarget.messageId) {
+      if (conversation.id !== activeConversationId) openConversation(conversation);
+      return;
+    }
+    const nodes = conversation.id === activeConversationId ? messageNodes : normalizeMessageTree(conversation.messages);
+    const target = nodes.find(m => m.id === searchTarget.messageId);
+    if (!target) return;
+
+    if (conversation.id !== activeConversationId) openConversation(conversation);
+    pendingJumpRef.current = target.id;
+    setSelectedBranches(prev => [...getPathBefore(nodes, target.id), target].reduce(selectBranch, prev));
+  }, [searchTarget, hasLoadedConversations]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  useEffect(() => {
+    // Persist the active thread once a reply has settled
+    if (isLoading || !activeConversationId) return;
+    const conversation = conversations.find(c => c.id === activeConversationId);
+    if (!conversation) return;
+    if (conversation.messages === messageNodes && conversation.selectedBranches === selectedBranches) return;
+
+    const firstUserMsg = messages.find(m => m.role === Sender.User);
+    const hadUserMsg = conversation.messages.some(m => m.role === Sender.User);
+    const updated: Conversation = {
+      ...conversation,
+      title: !hadUserMsg && firstUserMsg ? deriveThreadTitle(firstUserMsg) || conversation.title : conversation.title,
+      messages: messageNodes,
+      selectedBranches,
+      updatedAt: conversation.messages === messageNodes ? conversation.updatedAt : Date.now(),
+    };
+
+    setConversations(prev => sortConversations(prev.map(c => c.id === updated.id ? updated : c)));
+    saveConversation(updated).catch(error => console.error("Failed to save conversation:", error));
+  }, [messageNodes, selectedBranches, isLoading, activeConversationId]);
+
+  useEffect(() => {
+    setLibraryDocuments([]);
+    if (!activeConversationId) return;
+    let cancelled = false;
+    listDocuments(activeConversationId)
+      .then(documents => { if (!cancelled) setLibraryDocuments(documents); })
+      .catch(error => console.error("Failed to load documents:", error));
+    return () => { cancelled = true; };
+  }, [activeConversationId]);
+
+  const handleSelectConversation = (id: string) => {
+    if (id === activeConversationId) return;
+    const conversation = conversations.find(c => c.id === id);
+    if (conversation) openConversation(conversation);
+  };
+
+  const handleRenameConversation = async (id: string, title: string) => {
+    const updated = await renameConversation(id, title);
+    if (updated) {
+      setConversations(prev => sortConversations(prev.map(c => c.id === id ? { ...c, title: updated.title, updatedAt: updated.updatedAt } : c)));
+    }
+  };
+
+  const handleTogglePinConversation = async (id: string, pinned: boolean) => {
+    const updated = await setConversationPinned(id, pinned);
+    if (updated) {
+      setConversations(prev => sortConversations(prev.map(c => c.id === id ? { ...c, pinned } : c)));
     }
-  }, [isThinkingMode, translations.welcome]); // Re-run if translations change
+  };
+
+  const handleSelectPersona = async (personaId: string) => {
+    const persona = findPersona(personas, personaId);
+    setIsThinkingMode(persona.defaultThinkingMode);
+    if (!activeConversationId) return;
+    setConversations(prev => prev.map(c => c.id === activeConversationId ? { ...c, personaId: persona.id } : c));
+    try {
+      await setConversationPersona(activeConversationId, persona.id);
+    } catch (error) {
+      console.error("Failed to save persona:", error);
+    }
+  };
+
+  /**
+   * Folds the oldest turns of `history` into the thread's summary when sending
+   * `userMsg`, the library excerpts retrieved for it and the persona's system
+   * prompt would exceed the context budget. Returns the plan to send with; if
+   * summarizing fails the full history is sent as before.
+   */
+  const compactContext = async (history: ChatMessage[], userMsg: ChatMessage, retrievedContext: string | undefined, signal: AbortSignal) => {
+    const summaries = activeConversation?.summaries || [];
+    const plan = planContext(history, summaries);
+    const pendingTokens = estimateMessageTokens(userMsg)
+      + estimateTextTokens(retrievedContext || '')
+      + estimateTextTokens(activePersona.systemPrompt);
+    const toSummarize = selectMessagesToSummarize(plan, contextBudget, pendingTokens);
+    if (!toSummarize || !activeConversationId) return plan;
+
+    setIsCompacting(true);
+    try {
+      const text = await summarizeConversation(toSummarize, plan.summary?.text, modelSettings, {
+        conversationId: activeConversationId,
+        signal,
+        onStatus: setRequestStatus,
+      });
+      const summary: ConversationSummary = {
+        throughMessageId: toSummarize[toSummarize.length - 1].id,
+        text,
+        messageCount: (plan.summary?.messageCount || 0) + toSummarize.length,
+        createdAt: Date.now(),
+      };
+      const updated = [...summaries.filter(s => s.throughMessageId !== summary.throughMessageId), summary];
+      setConversations(prev => prev.map(c => c.id === activeConversationId ? { ...c, summaries: updated } : c));
+      setConversationSummaries(activeConversationId, updated).catch(error => console.error("Failed to save summary:", error));
+      return planContext(history, updated);
+    } catch (error) {
+      console.error("Failed to summarize conversation:", error);
+      return plan;
+    } finally {
+      setIsCompacting(false);
+      setRequestStatus(null);
+    }
+  };
+
+  const handleToggleTool = async (name: string) => {
+    if (!activeConversationId) return;
+    const current = enabledTools.map(tool => tool.declaration.name);
+    const next = current.includes(name) ? current.filter(n => n !== name) : [...current, name];
+    setConversations(prev => prev.map(c => c.id === activeConversationId ? { ...c, enabledTools: next } : c));
+    try {
+      await setConversationTools(activeConversationId, next);
+    } catch (error) {
+      console.error("Failed to save tools:", error);
+    }
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      await deleteConversation(id);
+    } catch (error) {
+      console.error("Failed to delete conversation:", error);
+      alert(translations.deleteThreadFailed);
+      return;
+    }
+    deleteConversationDocuments(id).catch(error => console.error("Failed to delete documents:", error));
+    const remaining = conversations.filter(c => c.id !== id);
+    setConversations(remaining);
+    if (id === activeConversationId) {
+      if (remaining.length > 0) {
+        openConversation(remaining[0]);
+      } else {
+        localStorage.removeItem(ACTIVE_THREAD_KEY);
+        await handleCreateConversation();
+      }
+    }
+  };
+
+  const handleImportConversation = async (file: File) => {
+    try {
+      const imported = parseChatExport(await file.text());
+      const conversation = await createConversation(imported.title, imported.messages, imported.selectedBranches);
+      setConversations(prev => sortConversations([conversation, ...prev]));
+      openConversation(conversation);
+    } catch (error: any) {
+      console.error("Failed to import conversation:", error);
+      alert(`${translations.importError} ${error.message || ''}`);
+    }
+  };
+
+  // Opens the cited file in a new tab; the browser's PDF viewer honours #page
+  const handleOpenCitation = async (citation: ChatCitation) => {
+    const document = await getLibraryDocument(citation.documentId);
+    if (!document) {
+      alert(translations.citationMissing.replace('{name}', citation.documentName));
+      return;
+    }
+    const url = URL.createObjectURL(document.blob);
+    window.open(citation.page ? `${url}#page=${citation.page}` : url, '_blank');
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleExportConversation = (kind: ChatExportKind) => {
+    setShowExportMenu(false);
+    const conversation = conversations.find(c => c.id === activeConversationId);
+    if (conversation) downloadConversation(conversation, kind);
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(() => {
+    const jumpTo = pendingJumpRef.current;
+    if (jumpTo && messages.some(m => m.id === jumpTo)) {
+      pendingJumpRef.current = null;
+      document.getElementById(`message-${jumpTo}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedMessageId(jumpTo);
+      return;
+    }
     scrollToBottom();
   }, [messages]);
 
+  const describeRejection = (file: File, reason: AttachmentRejection): string => {
+    const message = translations.attachmentErrors[reason]
+      .replace('{size}', formatFileSize(reason === 'fileTooLarge' ? MAX_ATTACHMENT_BYTES : MAX_TOTAL_ATTACHMENT_BYTES))
+      .replace('{count}', String(MAX_ATTACHMENTS_PER_MESSAGE));
+    return `${file.name || file.type}: ${message}`;
+  };
+
+  // Shared by the file picker, drag-and-drop and clipboard paste
+  const addFiles = (files: File[]) => {
+    if (files.length === 0 || isLoading) return;
+    const { accepted, rejected } = validateAttachments(attachedFiles, files);
+    if (accepted.length > 0) setAttachedFiles(prev => [...prev, ...accepted]);
+    setAttachmentError(rejected.length > 0 ? rejected.map(r => describeRejection(r.file, r.reason)).join(' · ') : null);
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      if (file.type === 'application/pdf') {
-        setAttachedFile(file);
-      } else {
-        alert("Please select a valid PDF file.");
-      }
-    }
+    if (e.target.files) addFiles(Array.from<File>(e.target.files));
+    e.target.value = ''; // Allow selecting the same file again after removing it
   };
 
-  const clearAttachment = () => {
-    setAttachedFile(null);
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.clipboardData.files);
+    if (files.length === 0) return; // Plain text paste
+    e.preventDefault();
+    addFiles(files);
   };
 
-  const handleSendMessage = async () => {
-    if ((!inputValue.trim() && !attachedFile) || !chatSessionRef.current || isLoading) return;
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    if (!isDraggingFiles) setIsDraggingFiles(true);
+  };
 
-    const userText = inputValue;
-    const currentFile = attachedFile;
-    
-    // Create user message object
-    const userMsg: ChatMessage = {
-      id: Date.now().toString(),
-      role: Sender.User,
-      text: userText,
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Leaving for a child element still counts as being over the drop zone
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(Array.from<File>(e.dataTransfer.files));
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachedFiles(prev => prev.filter((_, i) => i !== index));
+    setAttachmentError(null);
+  };
+
+  // Placeholder text for a pending reply; queue and retry notices take precedence
+  const describeLoading = (): string => {
+    if (requestStatus?.state === 'offline') return translations.offlineQueued;
+    if (requestStatus?.state === 'retrying') {
+      return translations.retrying
+        .replace('{attempt}', String(requestStatus.attempt))
+        .replace('{max}', String(requestStatus.maxAttempts));
+    }
+    return isCompacting ? translations.compacting : translations.thinkingLoading;
+  };
+
+  /**
+   * Streams a bot reply to `userMsg` into a new node under it. The chat session
+   * is rebuilt from `history` (the branch leading up to `userMsg`) so the model
+   * always sees exactly the path the user is looking at.
+   */
+  const streamReply = async (history: ChatMessage[], userMsg: ChatMessage, useThinking: boolean, turnThinkingBudget: number) => {
+    // Create a temporary placeholder for the bot response
+    const botMsg: ChatMessage = {
+      id: uuidv4(),
+      role: Sender.Bot,
+      text: '',
+      isThinking: true,
       timestamp: Date.now(),
-      attachment: currentFile ? { name: currentFile.name, type: 'pdf' } : undefined
+      parentId: userMsg.id,
     };
+    const botMsgId = botMsg.id;
 
-    setMessages(prev => [...prev, userMsg]);
-    setInputValue('');
-    setAttachedFile(null);
+    setMessageNodes(prev => [...prev, botMsg]);
+    setSelectedBranches(prev => selectBranch(prev, botMsg));
     setIsLoading(true);
 
+    // Created up front so Stop also cancels a send still queued offline or waiting to retry
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
-      // Create a temporary placeholder for the bot response
-      const botMsgId = (Date.now() + 1).toString();
-      setMessages(prev => [...prev, {
-        id: botMsgId,
-        role: Sender.Bot,
-        text: '',
-        isThinking: true,
-        timestamp: Date.now(),
-      }]);
-
-      let result: GenerateContentResponse;
-
-      if (currentFile) {
-        // Send with attachment using sendMessage (since chat handles history)
-        // We need to convert file to base64
-        const base64 = await blobToBase64(currentFile);
-        
-        // The `chat.sendMessage` method accepts a `message` parameter which can be a string, a Part, or an array of Parts.
-        result = await chatSessionRef.current.sendMessage({
-          message: [
-            { text: userText || "Analyze this PDF." },
-            { 
-                inlineData: {
-                  mimeType: 'application/pdf',
-                  data: base64
-                }
-            }
-          ]
-        });
-      } else {
-         result = await chatSessionRef.current.sendMessage({
-          message: userText
-        });
+      // Library excerpts go with this turn only; the stored message keeps just what the user wrote
+      const retrieved = activeConversationId
+        ? await retrieveDocumentContext(activeConversationId, userMsg.text, libraryDocuments)
+        : null;
+
+      const context = await compactContext(history, userMsg, retrieved?.context, controller.signal);
+      chatSessionRef.current = createChatSession(context.inContext, activePersona, modelSettings, context.summary?.text);
+      // The chat send methods accept a `message` parameter which can be a string, a Part, or an array of Parts.
+      let message: PartListUnion = toGeminiHistory([userMsg])[0]?.parts || userMsg.text;
+      if (retrieved) {
+        message = [{ text: retrieved.context }, ...(Array.isArray(message) ? message : [message])] as PartListUnion;
       }
 
-      const responseText = result.text || "I couldn't generate a response.";
+      let responseText = '';
+      const stream = sendChatMessageStream(chatSessionRef.current, message, {
+        persona: activePersona,
+        settings: modelSettings,
+        useThinking,
+        thinkingBudget: turnThinkingBudget,
+        signal: controller.signal,
+        conversationId: activeConversationId || undefined,
+        tools: enabledTools,
+        contextSummary: context.summary?.text,
+        onStatus: setRequestStatus,
+      });
+      for await (const update of stream) {
+        setRequestStatus(null);
+        responseText = update.text;
+        const toolCalls = update.toolCalls.length > 0 ? update.toolCalls : undefined;
+        setMessageNodes(prev => prev.map(msg => 
+          msg.id === botMsgId 
+            ? { ...msg, text: responseText, toolCalls, isThinking: false, isStreaming: true } 
+            : msg
+        ));
+      }
 
-      setMessages(prev => prev.map(msg => 
+      const wasInterrupted = controller.signal.aborted;
+      const citations = retrieved ? citedInReply(responseText, retrieved.citations) : [];
+      setMessageNodes(prev => prev.map(msg => 
         msg.id === botMsgId 
-          ? { ...msg, text: responseText, isThinking: false } 
+          ? {
+              ...msg,
+              text: responseText || (wasInterrupted ? '' : "I couldn't generate a response."),
+              citations: citations.length > 0 ? citations : undefined,
+              isThinking: false,
+              isStreaming: false,
+              interrupted: wasInterrupted,
+            } 
           : msg
       ));
 
     } catch (error) {
+      if (abortControllerRef.current?.signal.aborted) {
+        // Stopped by the user: keep whatever arrived and mark it as interrupted
+        setMessageNodes(prev => prev.map(msg => 
+          msg.id === botMsgId 
+            ? { ...msg, isThinking: false, isStreaming: false, interrupted: true } 
+            : msg
+        ));
+        return;
+      }
       console.error("Chat error:", error);
-      setMessages(prev => [...prev, {
-        id: Date.now().toString(),
-        role: Sender.Bot,
-        text: translations.error, // Use translations.chat.error
-        timestamp: Date.now(),
-      }]);
+      const errorText = translations.requestErrors[classifyRequestError(error)] || translations.error;
+      // Replace the pending placeholder so a stuck spinner is never persisted
+      setMessageNodes(prev => prev.map(msg => 
+        msg.id === botMsgId 
+          ? { ...msg, text: errorText, isThinking: false, isStreaming: false, isError: true }
+          : msg
+      ));
     } finally {
+      abortControllerRef.current = null;
+      setRequestStatus(null);
       setIsLoading(false);
     }
   };
 
+  const handleSendMessage = async () => {
+    if ((!inputValue.trim() && attachedFiles.length === 0) || isLoading) return;
+    if (!(await confirmWithinBudget(translations.budgetExceeded))) return;
+
+    const userText = inputValue;
+    const currentFiles = attachedFiles;
+    // Thinking settings are captured per turn; the history carries over unchanged
+    const useThinking = isThinkingMode;
+    const turnThinkingBudget = thinkingBudget;
+    const history = messages;
+    setIsLoading(true);
+
+    // Files are stored as base64 with the message so the thread can be replayed
+    let attachments;
+    try {
+      attachments = await Promise.all(currentFiles.map(readAttachment));
+    } catch (error) {
+      console.error("Failed to read attachments:", error);
+      setIsLoading(false);
+      return;
+    }
+    
+    // Create user message object
+    const userMsg: ChatMessage = {
+      id: uuidv4(),
+      role: Sender.User,
+      text: userText || (attachments.length > 0 ? translations.defaultAttachmentPrompt : ''),
+      timestamp: Date.now(),
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
+      thinkingMode: useThinking,
+      thinkingBudget: useThinking ? turnThinkingBudget : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    };
+
+    setMessageNodes(prev => [...prev, userMsg]);
+    setSelectedBranches(prev => selectBranch(prev, userMsg));
+    setInputValue('');
+    setAttachedFiles([]);
+    setAttachmentError(null);
+
+    await streamReply(history, userMsg, useThinking, turnThinkingBudget);
+  };
+
+  const startEditing = (msg: ChatMessage) => {
+    setEditingMessageId(msg.id);
+    setEditingText(msg.text);
+  };
+
+  // Resends an edited user turn as a new sibling branch of the original
+  const handleSubmitEdit = async (original: ChatMessage) => {
+    if (!editingText.trim() || isLoading) return;
+    if (!(await confirmWithinBudget(translations.budgetExceeded))) return;
+
+    const edited: ChatMessage = {
+      ...original,
+      id: uuidv4(),
+      text: editingText,
+      timestamp: Date.now(),
+      thinkingMode: isThinkingMode,
+      thinkingBudget: isThinkingMode ? thinkingBudget : undefined,
+    };
+
+    setEditingMessageId(null);
+    setMessageNodes(prev => [...prev, edited]);
+    setSelectedBranches(prev => selectBranch(prev, edited));
+
+    await streamReply(getPathBefore(messageNodes, original.id), edited, isThinkingMode, thinkingBudget);
+  };
+
+  // Generates an alternative answer as a new sibling branch of the given bot message
+  const handleRegenerate = async (botMsg: ChatMessage) => {
+    if (isLoading || !botMsg.parentId) return;
+    const userMsg = messageNodes.find(m => m.id === botMsg.parentId);
+    if (!userMsg || userMsg.role !== Sender.User) return;
+    if (!(await confirmWithinBudget(translations.budgetExceeded))) return;
+
+    await streamReply(getPathBefore(messageNodes, userMsg.id), userMsg, isThinkingMode, thinkingBudget);
+  };
+
+  const handleSwitchBranch = (msg: ChatMessage, offset: number) => {
+    const siblings = getSiblings(messageNodes, msg);
+    const target = siblings[siblings.indexOf(msg) + offset];
+    if (target) setSelectedBranches(prev => selectBranch(prev, target));
+  };
+
+  const handleStopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
-    <div className="flex flex-col h-full bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden transition-colors duration-200">
-      {/* Header */}
-      <div className="bg-slate-50 dark:bg-slate-800/50 p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center transition-colors">
-        <div className="flex items-center gap-2">
-          <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-blue-500 to-indigo-600 flex items-center justify-center text-white shadow-md">
-            <Bot size={18} />
+    <div className="flex h-full bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden transition-colors duration-200">
+      <ChatThreadList
+        translations={translations}
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        disabled={isLoading}
+        onSelect={handleSelectConversation}
+        onCreate={handleCreateConversation}
+        onRename={handleRenameConversation}
+        onDelete={handleDeleteConversation}
+        onTogglePin={handleTogglePinConversation}
+        onImport={handleImportConversation}
+      />
+
+      <div
+        className="relative flex flex-col flex-1 min-w-0"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {isDraggingFiles && (
+          <div className="absolute inset-0 z-30 m-2 rounded-xl border-2 border-dashed border-blue-400 bg-blue-50/80 dark:bg-blue-900/40 flex flex-col items-center justify-center gap-2 text-blue-600 dark:text-blue-300 pointer-events-none">
+            <Paperclip size={28} />
+            <span className="text-sm font-medium">{translations.dropFiles}</span>
           </div>
-          <div>
-            <h2 className="font-semibold text-slate-800 dark:text-slate-100">{translations.title}</h2> {/* Use translations.chat.title */}
-            <p className="text-xs text-slate-500 dark:text-slate-400">{translations.subtitle}</p> {/* Use translations.chat.subtitle */}
+        )}
+        {/* Header */}
+        <div className="bg-slate-50 dark:bg-slate-800/50 p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center transition-colors">
+          <div className="flex items-center gap-2">
+            <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-blue-500 to-indigo-600 flex items-center justify-center text-white shadow-md">
+              <Bot size={18} />
+            </div>
+            <div>
+              <h2 className="font-semibold text-slate-800 dark:text-slate-100">{translations.title}</h2> {/* Use translations.chat.title */}
+              <p className="text-xs text-slate-500 dark:text-slate-400">{translations.subtitle.replace('{model}', model?.label || modelSettings.model)}</p>
+            </div>
           </div>
-        </div>
         
-        <button
-          onClick={() => !isLoading && setIsThinkingMode(!isThinkingMode)}
-          className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-all ${
-            isThinkingMode 
-              ? 'bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 border border-purple-200 dark:border-purple-800 shadow-sm' 
-              : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-400 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700'
-          }`}
-          title="Enable deep reasoning capabilities"
-        >
-          <BrainCircuit size={16} />
-          <span className="hidden sm:inline">{isThinkingMode ? translations.thinkingOn : translations.thinkingOff}</span> {/* Use translations.chat.thinkingOn/Off */}
-        </button>
-      </div>
+          <div className="flex items-center gap-2">
+            <label
+              className="flex items-center gap-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full pl-3 pr-1 py-0.5 text-slate-600 dark:text-slate-400"
+              title={translations.persona}
+            >
+              <Drama size={14} />
+              <select
+                value={activePersona.id}
+                onChange={(e) => handleSelectPersona(e.target.value)}
+                disabled={isLoading}
+                className="bg-transparent border-none text-xs font-medium text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-0 py-1 max-w-[140px] truncate disabled:opacity-50"
+              >
+                {personas.map(persona => (
+                  <option key={persona.id} value={persona.id}>{persona.name}</option>
+                ))}
+              </select>
+            </label>
+            <div
+              className="hidden md:flex items-center gap-1.5 px-2 text-[10px] text-slate-500 dark:text-slate-400"
+              title={translations.contextUsageTitle}
+            >
+              <span>{translations.contextUsage}</span>
+              <div className="w-16 h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                <div
+                  className={`h-full ${contextRatio > 0.8 ? 'bg-orange-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(100, contextRatio * 100)}%` }}
+                />
+              </div>
+              <span className="font-mono">{formatTokenCount(contextPlan.tokens)}/{formatTokenCount(contextBudget)}</span>
+            </div>
+            <DocumentLibrary
+              translations={translations}
+              conversationId={activeConversationId}
+              documents={libraryDocuments}
+              onChange={setLibraryDocuments}
+              disabled={isLoading}
+            />
+            <div className="relative">
+              <button
+                onClick={() => setShowToolsMenu(!showToolsMenu)}
+                disabled={isLoading || !activeConversationId}
+                className={`p-2 rounded-full border transition-colors disabled:opacity-50 ${
+                  enabledTools.length > 0
+                    ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-300 border-blue-200 dark:border-blue-800'
+                    : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700'
+                }`}
+                title={translations.tools}
+              >
+                <Wrench size={16} />
+              </button>
+              {showToolsMenu && (
+                <div className="absolute right-0 mt-2 w-64 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg z-20 overflow-hidden">
+                  <p className="px-4 pt-3 pb-2 text-xs text-slate-500 dark:text-slate-400">{translations.toolsDesc}</p>
+                  {CHAT_TOOLS.map(tool => {
+                    const name = tool.declaration.name;
+                    return (
+                      <label key={name} className="flex items-center gap-2 px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={enabledTools.includes(tool)}
+                          onChange={() => handleToggleTool(name)}
+                          className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        {translations.toolNames[name] || name}
+                      </label>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                disabled={isLoading || !activeConversationId}
+                className="p-2 rounded-full bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-400 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                title={translations.exportThread}
+              >
+                <Download size={16} />
+              </button>
+              {showExportMenu && (
+                <div className="absolute right-0 mt-2 w-44 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg z-20 overflow-hidden">
+                  {(['markdown', 'html', 'json'] as ChatExportKind[]).map(kind => (
+                    <button
+                      key={kind}
+                      onClick={() => handleExportConversation(kind)}
+                      className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700"
+                    >
+                      {translations.exportFormats[kind]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {isThinkingMode && (
+              <select
+                value={thinkingBudget}
+                onChange={(e) => setThinkingBudget(Number(e.target.value))}
+                className="bg-white dark:bg-slate-800 border border-purple-200 dark:border-purple-800 rounded-full px-3 py-1.5 text-xs font-medium text-purple-700 dark:text-purple-300 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                title={translations.thinkingBudget}
+              >
+                {thinkingBudgetOptions.map(budget => (
+                  <option key={budget} value={budget}>
+                    {translations.thinkingBudget}: {budget.toLocaleString()}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => setIsThinkingMode(!isThinkingMode)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-all ${
+                isThinkingMode 
+                  ? 'bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 border border-purple-200 dark:border-purple-800 shadow-sm' 
+                  : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-400 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }`}
+              title="Enable deep reasoning capabilities"
+            >
+              <BrainCircuit size={16} />
+              <span className="hidden sm:inline">{isThinkingMode ? translations.thinkingOn : translations.thinkingOff}</span> {/* Use translations.chat.thinkingOn/Off */}
+            </button>
+          </div>
+        </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-6">
-        {messages.map((msg) => (
-          <div
-            key={msg.id}
-            className={`flex gap-3 ${msg.role === Sender.User ? 'flex-row-reverse' : 'flex-row'}`}
-          >
-            <div className={`
-              w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 mt-1 shadow-sm
-              ${msg.role === Sender.User 
-                ? 'bg-slate-800 dark:bg-slate-700 text-white' 
-                : 'bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400'}
-            `}>
-              {msg.role === Sender.User ? <UserIcon size={16} /> : <Bot size={16} />}
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {contextPlan.summary && (
+            <div className="sticky top-0 z-10 rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50/95 dark:bg-amber-900/40 backdrop-blur text-sm shadow-sm">
+              <button
+                onClick={() => setShowSummary(!showSummary)}
+                className="w-full flex items-center gap-2 px-4 py-2 text-left text-amber-800 dark:text-amber-200"
+              >
+                <Layers size={14} />
+                <span className="font-medium">{translations.summaryTitle}</span>
+                <span className="text-xs text-amber-600 dark:text-amber-400">
+                  {translations.summaryCovers.replace('{count}', String(contextPlan.summary.messageCount))}
+                </span>
+                <span className="ml-auto">{showSummary ? <ChevronUp size={14} /> : <ChevronDown size={14} />}</span>
+              </button>
+              {showSummary && (
+                <div className="px-4 pb-3 max-h-64 overflow-y-auto text-slate-700 dark:text-slate-200">
+                  <MarkdownRenderer text={contextPlan.summary.text} translations={translations} />
+                </div>
+              )}
             </div>
-            
-            <div className={`flex flex-col max-w-[80%] ${msg.role === Sender.User ? 'items-end' : 'items-start'}`}>
+          )}
+          {messages.map((msg) => {
+            const siblings = getSiblings(messageNodes, msg);
+            const branchIndex = siblings.indexOf(msg);
+            const isEditing = editingMessageId === msg.id;
+            const isSummarized = contextPlan.summarizedIds.has(msg.id);
+            return (
+            <div
+              key={msg.id}
+              id={`message-${msg.id}`}
+              className={`flex gap-3 rounded-2xl transition-colors duration-500 ${msg.role === Sender.User ? 'flex-row-reverse' : 'flex-row'} ${isSummarized ? 'opacity-60' : ''} ${highlightedMessageId === msg.id ? 'bg-yellow-100/70 dark:bg-yellow-900/30' : ''}`}
+            >
               <div className={`
-                px-4 py-3 rounded-2xl shadow-sm text-sm leading-relaxed whitespace-pre-wrap
+                w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 mt-1 shadow-sm
                 ${msg.role === Sender.User 
-                  ? 'bg-slate-800 dark:bg-blue-600 text-white rounded-tr-none border border-transparent' 
-                  : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-200 rounded-tl-none'}
+                  ? 'bg-slate-800 dark:bg-slate-700 text-white' 
+                  : 'bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400'}
               `}>
-                {msg.attachment && (
-                  <div className="mb-2 pb-2 border-b border-white/20 flex items-center gap-2">
-                    <Paperclip size={14} />
-                    <span className="text-xs font-medium">{msg.attachment.name}</span>
-                  </div>
-                )}
-                {msg.isThinking ? (
-                  <div className="flex items-center gap-2 text-slate-500 dark:text-slate-400 italic">
-                    <Loader2 className="animate-spin" size={14} />
-                    <span>{translations.thinkingLoading}</span> {/* Use translations.chat.thinkingLoading */}
-                  </div>
-                ) : (
-                  msg.text
-                )}
+                {msg.role === Sender.User ? <UserIcon size={16} /> : <Bot size={16} />}
+              </div>
+            
+              <div className={`flex flex-col max-w-[80%] ${msg.role === Sender.User ? 'items-end' : 'items-start'}`}>
+                <div className={`
+                  px-4 py-3 rounded-2xl shadow-sm text-sm leading-relaxed max-w-full
+                  ${msg.role === Sender.User 
+                    ? 'bg-slate-800 dark:bg-blue-600 text-white rounded-tr-none border border-transparent whitespace-pre-wrap' 
+                    : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-200 rounded-tl-none'}
+                `}>
+                  {msg.attachments && msg.attachments.length > 0 && (
+                    <div className="mb-2 pb-2 border-b border-white/20 flex flex-wrap gap-2">
+                      {msg.attachments.map((attachment, index) => {
+                        if (attachment.kind === 'image') {
+                          return (
+                            <a key={index} href={attachmentDataUrl(attachment)} target="_blank" rel="noopener noreferrer" title={attachment.name}>
+                              <img src={attachmentDataUrl(attachment)} alt={attachment.name} className="h-24 max-w-[160px] object-cover rounded-lg border border-white/20" />
+                            </a>
+                          );
+                        }
+                        const Icon = ATTACHMENT_ICONS[attachment.kind];
+                        return (
+                          <div key={index} className="flex items-center gap-1.5 bg-white/10 rounded-md px-2 py-1" title={`${attachment.name} (${formatFileSize(attachment.size)})`}>
+                            <Icon size={14} />
+                            <span className="text-xs font-medium truncate max-w-[160px]">{attachment.name}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {msg.toolCalls && msg.toolCalls.length > 0 && (
+                    <ToolInvocationList toolCalls={msg.toolCalls} translations={translations} />
+                  )}
+                  {isEditing ? (
+                    <div className="flex flex-col gap-2 min-w-[240px]">
+                      <textarea
+                        autoFocus
+                        value={editingText}
+                        onChange={(e) => setEditingText(e.target.value)}
+                        rows={3}
+                        className="w-full bg-white/10 border border-white/30 rounded-lg p-2 text-sm text-white placeholder:text-white/60 focus:outline-none focus:ring-2 focus:ring-white/40 resize-y"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setEditingMessageId(null)}
+                          className="px-3 py-1 rounded-full text-xs font-medium bg-white/10 hover:bg-white/20 transition-colors"
+                        >
+                          {translations.cancel}
+                        </button>
+                        <button
+                          onClick={() => handleSubmitEdit(msg)}
+                          disabled={!editingText.trim()}
+                          className="px-3 py-1 rounded-full text-xs font-medium bg-white text-slate-800 hover:bg-slate-100 disabled:opacity-50 transition-colors"
+                        >
+                          {translations.saveAndSend}
+                        </button>
+                      </div>
+                    </div>
+                  ) : msg.isThinking || (msg.isStreaming && !msg.text) ? (
+                    <div className="flex items-center gap-2 text-slate-500 dark:text-slate-400 italic">
+                      <Loader2 className="animate-spin" size={14} />
+                      <span>{describeLoading()}</span>
+                    </div>
+                  ) : (
+                    <>
+                      {msg.role === Sender.Bot && !msg.isError
+                        ? <MarkdownRenderer text={msg.text} translations={translations} />
+                        : msg.text}
+                      {msg.isStreaming && <span className="inline-block w-2 h-4 bg-blue-500 ml-1 animate-pulse align-middle" />}
+                    </>
+                  )}
+                  {msg.citations && msg.citations.length > 0 && (
+                    <div className="mt-3 pt-2 border-t border-slate-200 dark:border-slate-700">
+                      <p className="text-[10px] uppercase tracking-wide text-slate-400 mb-1">{translations.sources}</p>
+                      <div className="flex flex-col gap-1">
+                        {msg.citations.map(citation => (
+                          <button
+                            key={citation.index}
+                            onClick={() => handleOpenCitation(citation)}
+                            className="flex items-start gap-1.5 text-left text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                            title={citation.excerpt}
+                          >
+                            <span className="font-mono">[{citation.index}]</span>
+                            <BookOpen size={12} className="mt-0.5 flex-shrink-0" />
+                            <span className="truncate">
+                              {citation.documentName}
+                              {citation.page && ` · ${translations.citationPage.replace('{page}', String(citation.page))}`}
+                            </span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {msg.interrupted && (
+                    <div className="mt-2 pt-2 border-t border-slate-200 dark:border-slate-700 flex items-center gap-1 text-xs text-orange-600 dark:text-orange-400 italic">
+                      <Square size={10} fill="currentColor" />
+                      <span>{translations.interrupted}</span>
+                    </div>
+                  )}
+                </div>
+                <span className="text-[10px] text-slate-400 dark:text-slate-500 mt-1 px-1 flex items-center gap-1">
+                  {msg.thinkingMode && (
+                    <span className="flex items-center gap-0.5 text-purple-500 dark:text-purple-400" title={`${translations.thinkingBudget}: ${msg.thinkingBudget?.toLocaleString()}`}>
+                      <BrainCircuit size={10} />
+                    </span>
+                  )}
+                  {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {isSummarized ? (
+                    <span className="flex items-center gap-0.5 ml-1 text-amber-600 dark:text-amber-400" title={translations.summaryTitle}>
+                      <Layers size={10} />
+                      {translations.summarized}
+                    </span>
+                  ) : msg.id !== 'init' && !msg.isThinking && !msg.isError && (
+                    <span className="ml-1" title={translations.inContext}>
+                      · {translations.messageTokens.replace('{tokens}', formatTokenCount(estimateMessageTokens(msg)))}
+                    </span>
+                  )}
+                  {siblings.length > 1 && (
+                    <span className="flex items-center gap-0.5 ml-1">
+                      <button
+                        onClick={() => handleSwitchBranch(msg, -1)}
+                        disabled={isLoading || branchIndex === 0}
+                        className="hover:text-slate-600 dark:hover:text-slate-300 disabled:opacity-40"
+                        title={translations.previousBranch}
+                      >
+                        <ChevronLeft size={12} />
+                      </button>
+                      <span>{branchIndex + 1}/{siblings.length}</span>
+                      <button
+                        onClick={() => handleSwitchBranch(msg, 1)}
+                        disabled={isLoading || branchIndex === siblings.length - 1}
+                        className="hover:text-slate-600 dark:hover:text-slate-300 disabled:opacity-40"
+                        title={translations.nextBranch}
+                      >
+                        <ChevronRight size={12} />
+                      </button>
+                    </span>
+                  )}
+                  {!isLoading && !isEditing && msg.role === Sender.User && (
+                    <button
+                      onClick={() => startEditing(msg)}
+                      className="ml-1 hover:text-blue-500"
+                      title={translations.editMessage}
+                    >
+                      <Pencil size={10} />
+                    </button>
+                  )}
+                  {!isLoading && msg.role === Sender.Bot && msg.parentId && (
+                    <button
+                      onClick={() => handleRegenerate(msg)}
+                      className="ml-1 hover:text-blue-500"
+                      title={translations.regenerate}
+                    >
+                      <RefreshCw size={10} />
+                    </button>
+                  )}
+                </span>
               </div>
-              <span className="text-[10px] text-slate-400 dark:text-slate-500 mt-1 px-1">
-                {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </span>
             </div>
-          </div>
-        ))}
-        <div ref={messagesEndRef} />
-      </div>
+            );
+          })}
+          <div ref={messagesEndRef} />
+        </div>
 
-      {/* Input Area */}
-      <div className="p-4 bg-white dark:bg-slate-900 border-t border-slate-200 dark:border-slate-800 transition-colors">
-        {attachedFile && (
-          <div className="mb-3 flex items-center gap-2 bg-slate-100 dark:bg-slate-800 px-3 py-2 rounded-lg max-w-fit border border-slate-200 dark:border-slate-700">
-            <div className="w-8 h-8 rounded bg-red-100 dark:bg-red-900/30 flex items-center justify-center text-red-600 dark:text-red-400">
-              <FileText size={16} />
-            </div>
-            <div className="text-sm">
-              <p className="font-medium text-slate-700 dark:text-slate-200 truncate max-w-[150px]">{attachedFile.name}</p>
-              <p className="text-[10px] text-slate-500 dark:text-slate-400">{translations.pdfName}</p> {/* Use translations.chat.pdfName */}
+        {/* Input Area */}
+        <div className="p-4 bg-white dark:bg-slate-900 border-t border-slate-200 dark:border-slate-800 transition-colors">
+          {attachedFiles.length > 0 && (
+            <div className="mb-3 flex flex-wrap gap-2">
+              {attachedFiles.map((file, index) => {
+                const kind = classifyFile(file) || 'text';
+                const Icon = ATTACHMENT_ICONS[kind];
+                return (
+                  <div key={`${file.name}-${index}`} className="flex items-center gap-2 bg-slate-100 dark:bg-slate-800 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700">
+                    {attachmentPreviews[index] ? (
+                      <img src={attachmentPreviews[index]!} alt={file.name} className="w-8 h-8 rounded object-cover" />
+                    ) : (
+                      <div className="w-8 h-8 rounded bg-red-100 dark:bg-red-900/30 flex items-center justify-center text-red-600 dark:text-red-400">
+                        <Icon size={16} />
+                      </div>
+                    )}
+                    <div className="text-sm">
+                      <p className="font-medium text-slate-700 dark:text-slate-200 truncate max-w-[150px]">{file.name}</p>
+                      <p className="text-[10px] text-slate-500 dark:text-slate-400">{translations.attachmentKinds[kind]} · {formatFileSize(file.size)}</p>
+                    </div>
+                    <button 
+                      onClick={() => removeAttachment(index)}
+                      className="ml-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                      title={translations.removeAttachment}
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                );
+              })}
             </div>
-            <button 
-              onClick={clearAttachment}
-              className="ml-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
-            >
-              <X size={16} />
-            </button>
-          </div>
-        )}
+          )}
+          {attachmentError && (
+            <p className="mb-2 text-xs text-red-600 dark:text-red-400">{attachmentError}</p>
+          )}
         
-        <div className="flex items-center gap-2 bg-slate-50 dark:bg-slate-800 p-1.5 rounded-full border border-slate-200 dark:border-slate-700 focus-within:border-blue-400 dark:focus-within:border-blue-500 focus-within:ring-2 focus-within:ring-blue-100 dark:focus-within:ring-blue-900/30 transition-all">
-          <label className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 cursor-pointer transition-colors">
-            <input 
-              type="file" 
-              accept="application/pdf"
-              className="hidden"
-              onChange={handleFileSelect}
+          <div className="flex items-center gap-2 bg-slate-50 dark:bg-slate-800 p-1.5 rounded-full border border-slate-200 dark:border-slate-700 focus-within:border-blue-400 dark:focus-within:border-blue-500 focus-within:ring-2 focus-within:ring-blue-100 dark:focus-within:ring-blue-900/30 transition-all">
+            <label className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 cursor-pointer transition-colors" title={translations.attachFiles}>
+              <input 
+                type="file" 
+                multiple
+                accept={ACCEPTED_FILE_TYPES}
+                className="hidden"
+                onChange={handleFileSelect}
+                disabled={isLoading}
+              />
+              <Paperclip size={20} />
+            </label>
+          
+            <input
+              type="text"
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
+              onPaste={handlePaste}
+              placeholder={translations.placeholder} // Use translations.chat.placeholder
+              className="flex-1 bg-transparent border-none focus:ring-0 px-2 py-2 text-sm text-slate-800 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-500"
               disabled={isLoading}
             />
-            <Paperclip size={20} />
-          </label>
-          
-          <input
-            type="text"
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
-            placeholder={translations.placeholder} {/* Use translations.chat.placeholder */}
-            className="flex-1 bg-transparent border-none focus:ring-0 px-2 py-2 text-sm text-slate-800 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-500"
-            disabled={isLoading}
-          />
-          <button
-            onClick={handleSendMessage}
-            disabled={(!inputValue.trim() && !attachedFile) || isLoading}
-            className={`
-              p-2.5 rounded-full text-white transition-all
-              ${(!inputValue.trim() && !attachedFile) || isLoading 
-                ? 'bg-slate-300 dark:bg-slate-700 cursor-not-allowed' 
-                : 'bg-blue-600 hover:bg-blue-700 shadow-md'}
-            `}
-          >
-            {isLoading ? <Loader2 className="animate-spin" size={18} /> : <Send size={18} />}
-          </button>
+            {isLoading ? (
+              <button
+                onClick={handleStopStreaming}
+                className="p-2.5 rounded-full text-white transition-all bg-red-500 hover:bg-red-600 shadow-md"
+                title={translations.stop}
+              >
+                <Square size={18} fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSendMessage}
+                disabled={!inputValue.trim() && attachedFiles.length === 0}
+                className={`
+                  p-2.5 rounded-full text-white transition-all
+                  ${!inputValue.trim() && attachedFiles.length === 0 
+                    ? 'bg-slate-300 dark:bg-slate-700 cursor-not-allowed' 
+                    : 'bg-blue-600 hover:bg-blue-700 shadow-md'}
+                `}
+              >
+                <Send size={18} />
+              </button>
+            )}
+          </div>
+          {isThinkingMode && (
+            <p className="text-xs text-purple-600 dark:text-purple-400 mt-2 text-center flex items-center justify-center gap-1">
+              <BrainCircuit size={12} />
+              {translations.thinkingActive} {/* Use translations.chat.thinkingActive */}
+            </p>
+          )}
         </div>
-        {isThinkingMode && (
-          <p className="text-xs text-purple-600 dark:text-purple-400 mt-2 text-center flex items-center justify-center gap-1">
-            <BrainCircuit size={12} />
-            {translations.thinkingActive} {/* Use translations.chat.thinkingActive */}
-          </p>
-        )}
       </div>
     </div>
   );
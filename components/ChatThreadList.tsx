@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Plus, Pin, PinOff, Pencil, Trash2, MessageSquare, Check, X, Upload } from 'lucide-react';
+import { Conversation } from '../types';
+
+interface ChatThreadListProps {
+  translations: any; // Chat translation object
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onTogglePin: (id: string, pinned: boolean) => void;
+  onImport: (file: File) => void;
+}
+
+const ChatThreadList: React.FC<ChatThreadListProps> = ({
+  translations,
+  conversations,
+  activeConversationId,
+  disabled,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onTogglePin,
+  onImport,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleImportSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      onImport(e.target.files[0]);
+    }
+    e.target.value = ''; // Allow importing the same file twice
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm(translations.confirmDeleteThread)) {
+      onDelete(id);
+    }
+  };
+
+  return (
+    <div className="w-56 flex-shrink-0 border-r border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900 flex flex-col">
+      <div className="p-3 border-b border-slate-200 dark:border-slate-800 flex gap-2">
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus size={16} />
+          <span>{translations.newThread}</span>
+        </button>
+        <label
+          className={`p-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+          title={translations.importThread}
+        >
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportSelect}
+            disabled={disabled}
+          />
+          <Upload size={16} />
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && (
+          <p className="text-xs text-center text-slate-400 dark:text-slate-500 py-6">{translations.noThreads}</p>
+        )}
+        {conversations.map(conversation => {
+          const isActive = conversation.id === activeConversationId;
+          return (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-2 px-2 py-2 rounded-lg text-sm transition-colors ${
+                isActive
+                  ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                  : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'
+              }`}
+            >
+              {conversation.pinned
+                ? <Pin size={14} className="flex-shrink-0 text-amber-500" />
+                : <MessageSquare size={14} className="flex-shrink-0" />}
+
+              {editingId === conversation.id ? (
+                <>
+                  <input
+                    autoFocus
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-1 py-0.5 text-xs text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <button onClick={commitRename} className="text-slate-400 hover:text-green-600" title={translations.save}>
+                    <Check size={14} />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+                    <X size={14} />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => !disabled && onSelect(conversation.id)}
+                    className="flex-1 min-w-0 text-left truncate"
+                    title={conversation.title}
+                  >
+                    {conversation.title}
+                  </button>
+                  <div className="hidden group-hover:flex items-center gap-1">
+                    <button
+                      onClick={() => onTogglePin(conversation.id, !conversation.pinned)}
+                      className="text-slate-400 hover:text-amber-500"
+                      title={conversation.pinned ? translations.unpinThread : translations.pinThread}
+                    >
+                      {conversation.pinned ? <PinOff size={13} /> : <Pin size={13} />}
+                    </button>
+                    <button
+                      onClick={() => startRename(conversation)}
+                      className="text-slate-400 hover:text-blue-500"
+                      title={translations.renameThread}
+                    >
+                      <Pencil size={13} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(conversation.id)}
+                      disabled={disabled}
+                      className="text-slate-400 hover:text-red-500"
+                      title={translations.deleteThread}
+                    >
+                      <Trash2 size={13} />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChatThreadList;
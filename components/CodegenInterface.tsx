@@ -1,14 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, Bot, User as UserIcon, Loader2, Code, LayoutDashboard, ThumbsUp, ThumbsDown, GitFork, ShieldAlert, CheckCircle, Ban, Book, Save, Trash2, Copy, Check, X } from 'lucide-react';
-import { CodegenMessage, Sender, CodegenPhase, SavedCodeSnippet } from '../types';
+import { CodegenMessage, Sender, CodegenPhase, SavedCodeSnippet, SearchTarget } from '../types';
 import { v4 as uuidv4 } from 'uuid'; // For generating unique flow IDs
+import MarkdownRenderer, { HighlightedCode } from './MarkdownRenderer';
 
 interface CodegenInterfaceProps {
   translations: any; // Changed to any to accept the full translation object
   onUpdateSystemDissonance?: (score: number | null) => void;
+  searchTarget?: SearchTarget | null; // Global search hit to open
+  onSearchTargetHandled?: () => void;
 }
 
-const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpdateSystemDissonance }) => {
+const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpdateSystemDissonance, searchTarget, onSearchTargetHandled }) => {
   const [messages, setMessages] = useState<CodegenMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -21,6 +24,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
   // Library State
   const [savedSnippets, setSavedSnippets] = useState<SavedCodeSnippet[]>([]);
   const [showLibrary, setShowLibrary] = useState(false);
+  const [highlightedSnippetId, setHighlightedSnippetId] = useState<string | null>(null);
   const [copiedStates, setCopiedStates] = useState<{[key: string]: boolean}>({});
   const [savedStates, setSavedStates] = useState<{[key: string]: boolean}>({}); // Visual feedback for save buttons
 
@@ -66,6 +70,21 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
     localStorage.setItem('savedCodeSnippets', JSON.stringify(savedSnippets));
   }, [savedSnippets]);
 
+  // Open the library on a snippet picked in global search
+  useEffect(() => {
+    if (searchTarget?.source !== 'snippet') return;
+    onSearchTargetHandled?.();
+    setShowLibrary(true);
+    setHighlightedSnippetId(searchTarget.snippetId);
+  }, [searchTarget]);
+
+  useEffect(() => {
+    if (!highlightedSnippetId) return;
+    document.getElementById(`snippet-${highlightedSnippetId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedSnippetId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedSnippetId]);
+
   const handleSendCommand = async () => {
     if (!inputValue.trim() || isLoading) return;
 
@@ -250,7 +269,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
                 <span className="hidden sm:inline text-slate-600 dark:text-slate-300">{translations.patimokkhaStatus}</span> {/* Use translations.codegen.patimokkhaStatus */}
                 <span className={`${patimokkhaStatus.color} font-bold`}>{patimokkhaStatus.text}</span>
                 {latestValidationScore !== null && (
-                <span className="text-xs text-slate-500 dark:text-slate-400">({translations.score}: {latestValidationScore})</span> {/* Use translations.codegen.score */}
+                <span className="text-xs text-slate-500 dark:text-slate-400">({translations.score}: {latestValidationScore})</span>
                 )}
             </div>
 
@@ -258,7 +277,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
             <button 
                 onClick={() => setShowLibrary(!showLibrary)}
                 className={`p-2 rounded-lg transition-colors border ${showLibrary ? 'bg-indigo-100 border-indigo-200 text-indigo-700 dark:bg-indigo-900/50 dark:border-indigo-800 dark:text-indigo-300' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
-                title={translations.library} {/* Use translations.codegen.library */}
+                title={translations.library} // Use translations.codegen.library
             >
                 <Book size={20} />
             </button>
@@ -319,7 +338,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
                                     <button 
                                         onClick={() => handleCopy(msg.artifact!.source_code, msg.id)}
                                         className="flex items-center gap-1.5 px-2 py-1 hover:bg-slate-200 dark:hover:bg-slate-800 rounded text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
-                                        title={translations.copy} {/* Use translations.codegen.copy */}
+                                        title={translations.copy} // Use translations.codegen.copy
                                     >
                                         {copiedStates[msg.id] ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
                                         <span>{copiedStates[msg.id] ? translations.copied : translations.copy}</span> {/* Use translations.codegen.copied/copy */}
@@ -327,7 +346,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
                                     <button 
                                         onClick={() => handleSaveSnippet(msg.artifact!.source_code, msg.flowId, msg.id, msg.artifact?.engine_signature)}
                                         className="flex items-center gap-1.5 px-2 py-1 hover:bg-slate-200 dark:hover:bg-slate-800 rounded text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
-                                        title={savedStates[msg.id] ? translations.saved : translations.save} {/* Use translations.codegen.saved/save */}
+                                        title={savedStates[msg.id] ? translations.saved : translations.save} // Use translations.codegen.saved/save
                                     >
                                         {savedStates[msg.id] ? <Check size={14} className="text-green-500" /> : <Save size={14} />}
                                         <span>{savedStates[msg.id] ? translations.saved : translations.save}</span> {/* Use translations.codegen.saved/save */}
@@ -335,7 +354,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
                                 </div>
                             </div>
                             <div className="p-3 bg-slate-50 dark:bg-slate-950 text-slate-800 dark:text-slate-200 overflow-x-auto text-xs font-mono">
-                                <pre><code>{msg.artifact.source_code}</code></pre>
+                                <HighlightedCode code={msg.artifact.source_code} />
                             </div>
                         </div>
                         )}
@@ -347,7 +366,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
                             <h4 className="font-semibold flex items-center gap-1 mb-1">
                                 <ShieldAlert size={14} /> {translations.auditReport} {/* Use translations.codegen.auditReport */}
                             </h4>
-                            <p>{msg.artifact.audit_report}</p>
+                            <MarkdownRenderer text={msg.artifact.audit_report} translations={translations} />
                             {msg.artifact.engine_signature && (
                             <p className="mt-1 text-[10px] text-slate-400 dark:text-slate-500">
                                 Engine: {msg.artifact.engine_signature}
@@ -407,7 +426,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
                             <button 
                                 onClick={handleClearAllSnippets}
                                 className="p-1.5 text-slate-400 hover:text-red-500 transition-colors rounded hover:bg-red-50 dark:hover:bg-red-900/20 mr-1"
-                                title={translations.clearAll} {/* Use translations.codegen.clearAll */}
+                                title={translations.clearAll} // Use translations.codegen.clearAll
                             >
                                 <Trash2 size={16} />
                             </button>
@@ -426,7 +445,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
                           </div>
                       ) : (
                           savedSnippets.map(snippet => (
-                              <div key={snippet.id} className="bg-slate-50 dark:bg-slate-800 rounded-lg p-3 border border-slate-200 dark:border-slate-700 shadow-sm hover:border-indigo-300 dark:hover:border-indigo-700 transition-colors">
+                              <div key={snippet.id} id={`snippet-${snippet.id}`} className={`bg-slate-50 dark:bg-slate-800 rounded-lg p-3 border shadow-sm hover:border-indigo-300 dark:hover:border-indigo-700 transition-colors ${highlightedSnippetId === snippet.id ? 'border-yellow-400 dark:border-yellow-600' : 'border-slate-200 dark:border-slate-700'}`}>
                                   <div className="flex justify-between items-start mb-2">
                                       <p className="text-sm font-medium text-slate-800 dark:text-slate-200 line-clamp-2" title={snippet.description}>
                                           {snippet.description}
@@ -434,7 +453,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
                                       <button 
                                           onClick={() => handleDeleteSnippet(snippet.id)}
                                           className="text-slate-400 hover:text-red-500 transition-colors ml-2"
-                                          title={translations.delete} {/* Use translations.codegen.delete */}
+                                          title={translations.delete} // Use translations.codegen.delete
                                       >
                                           <Trash2 size={14} />
                                       </button>
@@ -473,7 +492,7 @@ const CodegenInterface: React.FC<CodegenInterfaceProps> = ({ translations, onUpd
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleSendCommand()}
-            placeholder={translations.placeholder} {/* Use translations.codegen.placeholder */}
+            placeholder={translations.placeholder} // Use translations.codegen.placeholder
             className="flex-1 bg-transparent border-none focus:ring-0 px-2 py-2 text-sm text-slate-800 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-500"
             disabled={isLoading}
           />
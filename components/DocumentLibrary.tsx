@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Library, Upload, Trash2, FileText, FileCode, Loader2 } from 'lucide-react';
+import { LibraryDocument } from '../types';
+import { DocumentRejection, MAX_DOCUMENT_BYTES, addDocument, deleteDocument, validateDocument } from '../services/documentStore';
+import { ACCEPTED_DOCUMENT_TYPES, formatFileSize } from '../utils/attachments';
+
+interface DocumentLibraryProps {
+  translations: any; // t.chat
+  conversationId: string | null;
+  documents: LibraryDocument[];
+  onChange: (documents: LibraryDocument[]) => void;
+  disabled?: boolean;
+}
+
+// Header button with a dropdown listing the thread's library; files are indexed locally as they are added
+const DocumentLibrary: React.FC<DocumentLibraryProps> = ({ translations, conversationId, documents, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [indexingName, setIndexingName] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const describeRejection = (name: string, reason: DocumentRejection) =>
+    `${name}: ${translations.libraryErrors[reason].replace('{size}', formatFileSize(MAX_DOCUMENT_BYTES))}`;
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
+    e.target.value = '';
+    if (!conversationId || files.length === 0) return;
+
+    const problems: string[] = [];
+    let current = documents;
+    for (const file of files) {
+      const rejection = validateDocument(file);
+      if (rejection) {
+        problems.push(describeRejection(file.name, rejection));
+        continue;
+      }
+      setIndexingName(file.name);
+      try {
+        const document = await addDocument(conversationId, file);
+        if (document) {
+          current = [...current, document];
+          onChange(current);
+        } else {
+          problems.push(describeRejection(file.name, 'noText'));
+        }
+      } catch (error) {
+        console.error("Failed to index document:", error);
+        problems.push(`${file.name}: ${translations.libraryErrors.parseFailed}`);
+      }
+    }
+    setIndexingName(null);
+    setErrors(problems);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteDocument(id);
+      onChange(documents.filter(doc => doc.id !== id));
+    } catch (error) {
+      console.error("Failed to delete document:", error);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || !conversationId}
+        className={`relative p-2 rounded-full border transition-colors disabled:opacity-50 ${
+          documents.length > 0
+            ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800'
+            : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700'
+        }`}
+        title={translations.library}
+      >
+        <Library size={16} />
+        {documents.length > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-emerald-500 text-white text-[10px] leading-4 text-center">
+            {documents.length}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg z-20 overflow-hidden">
+          <div className="px-4 pt-3 pb-2">
+            <p className="text-sm font-medium text-slate-700 dark:text-slate-200">{translations.library}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">{translations.libraryDesc}</p>
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            {documents.length === 0 && (
+              <p className="px-4 py-2 text-xs italic text-slate-400">{translations.libraryEmpty}</p>
+            )}
+            {documents.map(doc => {
+              const Icon = doc.mimeType === 'application/pdf' ? FileText : FileCode;
+              return (
+                <div key={doc.id} className="group flex items-center gap-2 px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700">
+                  <Icon size={16} className="flex-shrink-0 text-slate-400" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-slate-700 dark:text-slate-200 truncate" title={doc.name}>{doc.name}</p>
+                    <p className="text-[10px] text-slate-500 dark:text-slate-400">
+                      {translations.libraryStats
+                        .replace('{pages}', String(doc.pageCount))
+                        .replace('{chunks}', String(doc.chunkCount))
+                        .replace('{size}', formatFileSize(doc.size))}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(doc.id)}
+                    className="p-1 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title={translations.libraryRemove}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          {errors.length > 0 && (
+            <p className="px-4 py-2 text-xs text-red-600 dark:text-red-400">{errors.join(' · ')}</p>
+          )}
+          <label className={`flex items-center justify-center gap-2 m-3 px-3 py-2 rounded-lg border border-dashed border-slate-300 dark:border-slate-600 text-sm text-slate-600 dark:text-slate-300 transition-colors ${
+            indexingName ? 'opacity-60' : 'cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700'
+          }`}>
+            <input
+              type="file"
+              multiple
+              accept={ACCEPTED_DOCUMENT_TYPES}
+              className="hidden"
+              onChange={handleFileSelect}
+              disabled={!!indexingName}
+            />
+            {indexingName ? (
+              <>
+                <Loader2 size={14} className="animate-spin" />
+                <span className="truncate">{translations.libraryIndexing.replace('{name}', indexingName)}</span>
+              </>
+            ) : (
+              <>
+                <Upload size={14} />
+                {translations.libraryAdd}
+              </>
+            )}
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentLibrary;
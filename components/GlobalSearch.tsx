@@ -0,0 +1,194 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, MessageSquareText, FileText, Code, Loader2, X } from 'lucide-react';
+import { AppMode, SearchTarget } from '../types';
+import { loadSearchDocuments } from '../services/searchService';
+import { SearchIndex, buildSearchIndex, searchIndex } from '../utils/searchIndex';
+import { tokenize } from '../utils/tokenizer';
+
+interface GlobalSearchProps {
+  translations: any; // t.search
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (target: SearchTarget) => void;
+}
+
+const SEARCHABLE_MODES = [AppMode.Chat, AppMode.Transcribe, AppMode.Codegen];
+
+const MODE_ICONS: Partial<Record<AppMode, React.ElementType>> = {
+  [AppMode.Chat]: MessageSquareText,
+  [AppMode.Transcribe]: FileText,
+  [AppMode.Codegen]: Code,
+};
+
+type DateRange = 'any' | 'day' | 'week' | 'month' | 'year';
+
+const DATE_RANGE_DAYS: Record<Exclude<DateRange, 'any'>, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+// Wraps case-insensitive occurrences of the query terms in <mark>
+const highlight = (text: string, terms: string[]): React.ReactNode => {
+  if (terms.length === 0) return text;
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1
+      ? <mark key={i} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded px-0.5">{part}</mark>
+      : part
+  );
+};
+
+// Ctrl/Cmd+K palette over chats, transcripts and snippets; the index is rebuilt each time it opens
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ translations, isOpen, onClose, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [modes, setModes] = useState<AppMode[]>([]);
+  const [dateRange, setDateRange] = useState<DateRange>('any');
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const resultsRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIndex(null);
+    setSelectedIndex(0);
+    inputRef.current?.focus();
+    loadSearchDocuments().then(documents => {
+      if (!cancelled) setIndex(buildSearchIndex(documents));
+    });
+    return () => { cancelled = true; };
+  }, [isOpen]);
+
+  const results = useMemo(() => {
+    if (!index) return [];
+    const since = dateRange === 'any' ? undefined : Date.now() - DATE_RANGE_DAYS[dateRange] * 24 * 60 * 60 * 1000;
+    return searchIndex(index, query, { modes, since });
+  }, [index, query, modes, dateRange]);
+
+  const highlightTerms = useMemo(() => tokenize(query), [query]);
+
+  useEffect(() => setSelectedIndex(0), [query, modes, dateRange]);
+
+  useEffect(() => {
+    resultsRef.current?.querySelector(`[data-result-index="${selectedIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  if (!isOpen) return null;
+
+  const toggleMode = (mode: AppMode) => {
+    setModes(prev => prev.includes(mode) ? prev.filter(m => m !== mode) : [...prev, mode]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[selectedIndex]) {
+      onSelect(results[selectedIndex].document.target);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-slate-900/40 backdrop-blur-sm p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-slate-200 dark:border-slate-800">
+          <Search size={18} className="text-slate-400" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={translations.placeholder}
+            className="flex-1 bg-transparent border-none focus:ring-0 focus:outline-none text-sm text-slate-800 dark:text-slate-100 placeholder:text-slate-400"
+          />
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title={translations.close}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-slate-100 dark:border-slate-800 text-xs">
+          {SEARCHABLE_MODES.map(mode => {
+            const Icon = MODE_ICONS[mode]!;
+            const active = modes.includes(mode);
+            return (
+              <button
+                key={mode}
+                onClick={() => toggleMode(mode)}
+                className={`flex items-center gap-1 px-2.5 py-1 rounded-full border transition-colors ${
+                  active
+                    ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800 text-blue-600 dark:text-blue-300'
+                    : 'border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800'
+                }`}
+              >
+                <Icon size={12} />
+                {translations.modes[mode]}
+              </button>
+            );
+          })}
+          <select
+            value={dateRange}
+            onChange={(e) => setDateRange(e.target.value as DateRange)}
+            className="ml-auto bg-transparent border border-slate-200 dark:border-slate-700 rounded-full px-2.5 py-1 text-slate-600 dark:text-slate-300 focus:outline-none"
+          >
+            {(['any', 'day', 'week', 'month', 'year'] as DateRange[]).map(range => (
+              <option key={range} value={range}>{translations.dateRanges[range]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div ref={resultsRef} className="max-h-[60vh] overflow-y-auto">
+          {!index ? (
+            <div className="flex items-center justify-center gap-2 py-10 text-sm text-slate-400">
+              <Loader2 size={16} className="animate-spin" />
+              {translations.loading}
+            </div>
+          ) : !query.trim() ? (
+            <p className="py-10 text-center text-sm text-slate-400">{translations.hint}</p>
+          ) : results.length === 0 ? (
+            <p className="py-10 text-center text-sm text-slate-400">{translations.noResults}</p>
+          ) : (
+            results.map((hit, i) => {
+              const Icon = MODE_ICONS[hit.document.mode] || Search;
+              return (
+                <button
+                  key={hit.document.id}
+                  data-result-index={i}
+                  onClick={() => onSelect(hit.document.target)}
+                  onMouseMove={() => setSelectedIndex(i)}
+                  className={`w-full text-left px-4 py-3 flex gap-3 border-b border-slate-100 dark:border-slate-800 last:border-b-0 ${
+                    i === selectedIndex ? 'bg-slate-100 dark:bg-slate-800' : ''
+                  }`}
+                >
+                  <Icon size={16} className="flex-shrink-0 mt-0.5 text-slate-400" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate">{highlight(hit.document.title, highlightTerms)}</span>
+                      <span className="ml-auto flex-shrink-0 text-[10px] text-slate-400">{new Date(hit.document.timestamp).toLocaleDateString()}</span>
+                    </div>
+                    {hit.excerpt && (
+                      <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">{highlight(hit.excerpt, highlightTerms)}</p>
+                    )}
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+
+        <div className="px-4 py-2 border-t border-slate-100 dark:border-slate-800 text-[10px] text-slate-400">
+          {translations.keyboardHint}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlobalSearch;
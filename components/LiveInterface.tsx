@@ -1,37 +1,117 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { Mic, MicOff, Volume2, X, Activity, Radio, AlertCircle, Settings, KeyRound, DollarSign } from 'lucide-react'; // Added KeyRound, DollarSign icons
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { float32ToInt16, base64ToArrayBuffer, arrayBufferToBase64 } from '../services/audio';
-import { PREBUILT_VOICES, VoiceName } from '../types'; // Import PREBUILT_VOICES and VoiceName
+import { Mic, MicOff, Volume2, X, Activity, Radio, AlertCircle, Settings, KeyRound, DollarSign, Download, MessageSquareText, Disc, Timer, Camera, MonitorUp, Gauge, Send, Keyboard } from 'lucide-react'; // Added KeyRound, DollarSign icons
+import { FunctionCall, LiveServerMessage, Modality } from '@google/genai';
+import { v4 as uuidv4 } from 'uuid';
+import { base64ToArrayBuffer } from '../services/audio';
+import { CAPTURE_MIME_TYPE, MicCapture, openMicCapture } from '../services/micCapture';
+import { AppMode, LiveInputSettings, LiveMicMode, LiveRecordingMode, LiveTranscriptEntry, LiveVideoSettings, LiveVideoSource, ModelSettings, PREBUILT_VOICES, SavedTranscript, ToolInvocation, VoiceName } from '../types'; // Import PREBUILT_VOICES and VoiceName
+import { toGenerationConfig } from '../services/modelRegistry';
+import { confirmWithinBudget, recordUsage } from '../services/usageStore';
+import { AIProvider, getProvider, LiveSession } from '../services/aiProvider';
+import { backoffDelay, classifyRequestError, sleep, waitForOnline } from '../services/requestPolicy';
+import { saveTranscript } from '../services/transcriptStore';
+import {
+  LIVE_MIC_MODES,
+  loadRecordingMode,
+  loadVideoSettings,
+  RECORDING_MODES,
+  saveRecordingMode,
+  saveVideoSettings,
+  toRealtimeInputConfig,
+  VIDEO_FRAME_RATES,
+  VIDEO_WIDTHS,
+  VOICE_ACTIVITY_SENSITIVITIES,
+} from '../services/liveSettings';
+import { openVideoCapture, VIDEO_MIME_TYPE, VideoCapture, VideoFrame } from '../services/videoCapture';
+import { SessionRecorder, startSessionRecorder } from '../services/sessionRecorder';
+import { saveRecording } from '../services/recordingStore';
+import { executeTool } from '../services/chatTools';
+import { createLiveToolkit, LiveTimer, LiveToolkit } from '../services/liveTools';
+import LiveRecordings from './LiveRecordings';
+import ToolInvocationList from './ToolInvocationList';
+import {
+  appendTranscription,
+  appendTypedTurn,
+  downloadLiveTranscript,
+  formatCallOffset,
+  liveTranscriptToText,
+  LiveTranscriptExportKind,
+  markInterrupted,
+} from '../utils/liveTranscript';
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const MAX_BUFFERED_CHUNKS = 300; // About 30 s of microphone audio
+const VIDEO_STATS_WINDOW_MS = 5000;
+
+// Placed in the transcript at the moment the model made the call
+type LiveToolCard = ToolInvocation & { timestamp: number };
 
 interface LiveInterfaceProps {
   translations: any; // Changed to any to accept the full translation object
   selectedVoice: VoiceName;
   setSelectedVoice: (voice: VoiceName) => void;
+  modelSettings: ModelSettings; // Resolved Live settings from the model registry
+  inputSettings: LiveInputSettings;
+  setInputSettings: (settings: LiveInputSettings) => void;
 }
 
-const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoice, setSelectedVoice }) => {
+const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoice, setSelectedVoice, modelSettings, inputSettings, setInputSettings }) => {
   const [isConnected, setIsConnected] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
+  const [isTalking, setIsTalking] = useState(false); // Push-to-talk held down
   const [volumeLevel, setVolumeLevel] = useState(0); // User input volume
   const [aiVolume, setAiVolume] = useState(0); // AI output volume
   const [error, setError] = useState<string | null>(null);
   const [hasApiKey, setHasApiKey] = useState(false);
+  const [transcript, setTranscript] = useState<LiveTranscriptEntry[]>([]);
+  const [callStartedAt, setCallStartedAt] = useState(0);
+  const [savedTranscriptTitle, setSavedTranscriptTitle] = useState<string | null>(null);
+  const [recordingMode, setRecordingMode] = useState<LiveRecordingMode>(loadRecordingMode);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isRecordingsOpen, setIsRecordingsOpen] = useState(false);
+  const [reconnectAttempt, setReconnectAttempt] = useState<number | null>(null); // Set while a dropped call reconnects
+  const [toolCalls, setToolCalls] = useState<LiveToolCard[]>([]);
+  const [timerAlert, setTimerAlert] = useState<string | null>(null);
+  const [typedText, setTypedText] = useState('');
+  const [videoSettings, setVideoSettings] = useState<LiveVideoSettings>(loadVideoSettings);
+  const [videoSource, setVideoSource] = useState<LiveVideoSource | null>(null);
+  const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
+  const [videoStats, setVideoStats] = useState<{ kilobytesPerSecond: number; framesPerSecond: number; width: number; height: number } | null>(null);
 
   // Audio References
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const outputAnalyserRef = useRef<AnalyserNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
   const nextStartTimeRef = useRef<number>(0);
-  const sessionRef = useRef<any>(null);
+  const scheduledSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set()); // Queued or playing model audio
+  const modelTurnEndedRef = useRef(true); // Next model transcription starts a new entry
+  const sessionRef = useRef<Promise<LiveSession> | null>(null);
+  const sessionGenerationRef = useRef(0); // Bumped per connection; callbacks of replaced sessions are ignored
+  const sessionOpenRef = useRef(false);
+  const callActiveRef = useRef(false); // The first connection opened and the user has not hung up
+  const resumeHandleRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectAbortRef = useRef<AbortController | null>(null);
+  const pendingAudioRef = useRef<string[]>([]); // Captured while reconnecting
+  const lastSessionErrorRef = useRef<string | null>(null);
+  const toolkitRef = useRef<LiveToolkit | null>(null); // Created per call; its timers end with it
+  const cancelledToolCallsRef = useRef<Set<string>>(new Set());
+  const videoCaptureRef = useRef<VideoCapture | null>(null);
+  const sentFramesRef = useRef<{ at: number; bytes: number; width: number; height: number }[]>([]); // Feeds the bandwidth indicator
+  const previewRef = useRef<HTMLVideoElement>(null);
   const rafRef = useRef<number | null>(null);
+  // Mirrors `transcript` for disconnect(), which runs from stale callbacks; cleared once the call is saved
+  const transcriptRef = useRef<LiveTranscriptEntry[]>([]);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+  // Read by the capture callbacks, which are created once per call and would otherwise see stale state
+  const isMutedRef = useRef(false);
+  const isTalkingRef = useRef(false);
+  const micModeRef = useRef<LiveMicMode>(inputSettings.micMode); // Mode of the current call
 
   const checkApiKeyStatus = async () => {
-    if (typeof window.aistudio !== 'undefined' && await window.aistudio.hasSelectedApiKey()) {
+    if (!getProvider().requiresApiKey || (typeof window.aistudio !== 'undefined' && await window.aistudio.hasSelectedApiKey())) {
       setHasApiKey(true);
     } else {
       setHasApiKey(false);
@@ -39,22 +119,19 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoi
     }
   };
 
-  const initializeAudio = async () => {
+  const isMicOpen = () => micModeRef.current === 'pushToTalk' ? isTalkingRef.current : !isMutedRef.current;
+
+  const initializeAudio = async (onChunk: (data: string) => void) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        } 
+      const capture = await openMicCapture({
+        onChunk,
+        onLevel: (rms) => setVolumeLevel(isMicOpen() ? Math.min(rms * 5, 1) : 0), // Scale for visuals
       });
-      streamRef.current = stream;
+      captureRef.current = capture;
 
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
       const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
 
-      // Ensure contexts are running
-      if (inputCtx.state === 'suspended') await inputCtx.resume();
+      // Ensure context is running
       if (outputCtx.state === 'suspended') await outputCtx.resume();
 
       // Setup Output Analyser for AI Voice Visualization
@@ -64,10 +141,22 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoi
       analyser.connect(outputCtx.destination);
       outputAnalyserRef.current = analyser;
 
-      inputAudioContextRef.current = inputCtx;
       outputAudioContextRef.current = outputCtx;
 
-      return { stream, inputCtx, outputCtx };
+      // A recording that fails to start leaves the call itself running
+      if (recordingMode !== 'off') {
+        try {
+          const recorder = await startSessionRecorder(outputCtx, capture.stream, { webm: recordingMode === 'wavAndWebm' });
+          analyser.connect(recorder.input);
+          recorder.setMicEnabled(isMicOpen());
+          recorderRef.current = recorder;
+          setIsRecording(true);
+        } catch (err) {
+          console.error("Recording could not start:", err);
+        }
+      }
+
+      return capture;
     } catch (err) {
       console.error("Audio initialization error:", err);
       console.trace(); // Add trace for initialization errors
@@ -75,159 +164,424 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoi
     }
   };
 
-  const connectToLive = async () => {
-    setError(null);
-    
-    // NEW: API Key check before connecting
-    if (typeof window.aistudio === 'undefined') {
-      setError((translations.apiKey || {}).keyNotFound); // Defensive access
-      return;
+  const addTranscription = (role: LiveTranscriptEntry['role'], text: string) => {
+    const startsTurn = role === 'model' && modelTurnEndedRef.current;
+    if (role === 'model') modelTurnEndedRef.current = false;
+    transcriptRef.current = appendTranscription(transcriptRef.current, role, text, Date.now(), startsTurn);
+    setTranscript(transcriptRef.current);
+  };
+
+  // Sends a typed turn into the open session; the reply still comes back as audio
+  const sendTypedText = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = typedText.trim();
+    if (!text || !sessionOpenRef.current) return;
+    // A new turn replaces any reply still playing, as speaking over it would
+    if (!modelTurnEndedRef.current) {
+      stopPlayback();
+      transcriptRef.current = markInterrupted(transcriptRef.current);
     }
-    if (!(await window.aistudio.hasSelectedApiKey())) {
-      setHasApiKey(false);
-      setError((translations.apiKey || {}).selectKey); // Defensive access
+    modelTurnEndedRef.current = true;
+    transcriptRef.current = appendTypedTurn(transcriptRef.current, text, Date.now());
+    setTranscript(transcriptRef.current);
+    setTypedText('');
+    withSession(session => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }));
+  };
+
+  // Drops every buffered chunk so an interrupted reply stops at once instead of playing out
+  const stopPlayback = () => {
+    scheduledSourcesRef.current.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    scheduledSourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+  };
+
+  // Stores the finished call with the other transcripts so it shows up in search
+  const saveCallTranscript = (): SavedTranscript | null => {
+    const entries = transcriptRef.current;
+    transcriptRef.current = [];
+    if (!entries.length) return null;
+    const title = translations.live.transcriptTitle.replace('{date}', new Date(entries[0].timestamp).toLocaleString());
+    try {
+      const saved = saveTranscript(title, liveTranscriptToText(entries), 'voiceChat', entries);
+      setSavedTranscriptTitle(title);
+      return saved;
+    } catch (err) {
+      console.error("Failed to save call transcript:", err);
+      setError(translations.live.transcriptSaveFailed);
+      return null;
+    }
+  };
+
+  // Stored next to the call's transcript, under the same title
+  const finishRecording = async (recorder: SessionRecorder, transcript: SavedTranscript | null) => {
+    try {
+      const audio = await recorder.stop();
+      if (!audio.durationMs) return;
+      await saveRecording({
+        title: transcript?.title ?? translations.live.transcriptTitle.replace('{date}', new Date(audio.startedAt).toLocaleString()),
+        createdAt: audio.startedAt,
+        durationMs: audio.durationMs,
+        transcriptId: transcript?.id,
+        wav: audio.wav,
+        webm: audio.webm,
+      });
+    } catch (err) {
+      console.error("Failed to save recording:", err);
+      setError(translations.live.recordingFailed);
+    }
+  };
+
+  // Runs `action` once the current session is open; sends to a session that never opened are dropped
+  const withSession = (action: (session: LiveSession) => void) => {
+    sessionRef.current?.then(action, () => {});
+  };
+
+  // Audio captured while the connection is down is queued and sent after reconnecting
+  const sendAudio = (data: string) => {
+    if (!isMicOpen()) return;
+    if (!sessionOpenRef.current) {
+      const pending = pendingAudioRef.current;
+      pending.push(data);
+      if (pending.length > MAX_BUFFERED_CHUNKS) pending.shift();
       return;
     }
-    setHasApiKey(true); // Assume API key is present and valid
+    withSession(session => session.sendRealtimeInput({ media: { mimeType: CAPTURE_MIME_TYPE, data } }));
+  };
 
+  // Frames are dropped while reconnecting; a stale picture is no use to the model
+  const sendVideoFrame = ({ data, bytes, width, height }: VideoFrame) => {
+    if (!sessionOpenRef.current) return;
+    sentFramesRef.current.push({ at: Date.now(), bytes, width, height });
+    withSession(session => session.sendRealtimeInput({ video: { mimeType: VIDEO_MIME_TYPE, data } }));
+  };
+
+  const stopVideo = () => {
+    videoCaptureRef.current?.stop();
+    videoCaptureRef.current = null;
+    sentFramesRef.current = [];
+    setVideoSource(null);
+    setVideoStream(null);
+    setVideoStats(null);
+  };
+
+  // Turns a source on or off; picking the other source replaces the current one
+  const toggleVideo = async (source: LiveVideoSource) => {
+    const current = videoCaptureRef.current?.source;
+    stopVideo();
+    if (current === source) return;
     try {
-      if (!process.env.API_KEY) {
-        throw new Error((translations.apiKey || {}).keyNotFound); // Defensive access
+      const capture = await openVideoCapture(source, videoSettings, { onFrame: sendVideoFrame, onEnded: stopVideo });
+      if (!callActiveRef.current) { // Hung up while the permission prompt or screen picker was open
+        capture.stop();
+        return;
       }
+      videoCaptureRef.current = capture;
+      setVideoSource(source);
+      setVideoStream(capture.stream);
+    } catch (e: any) {
+      console.error("Video capture failed:", e);
+      setError(source === 'camera' ? translations.live.cameraError : translations.live.screenShareError);
+    }
+  };
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // Defensive check for ai and ai.live
-      if (!ai || !ai.live) {
-        console.error("GoogleGenAI instance or 'live' property is undefined:", ai);
-        throw new Error((translations.apiKey || {}).apiInitFailed); // Defensive access
-      }
+  // Runs the model's tool calls locally and answers with the results; calls the server cancelled get no answer
+  const runToolCalls = async (calls: FunctionCall[]) => {
+    const session = sessionRef.current;
+    const tools = toolkitRef.current?.tools || [];
+    const pending: LiveToolCard[] = calls.map(call => ({
+      id: call.id || uuidv4(),
+      name: call.name || '',
+      args: call.args || {},
+      status: 'running',
+      timestamp: Date.now(),
+    }));
+    setToolCalls(prev => [...prev, ...pending]);
 
-      const { stream, inputCtx, outputCtx } = await initializeAudio();
+    const functionResponses = await Promise.all(pending.map(async call => {
+      const outcome = await executeTool(tools, call.name, call.args);
+      const settled: LiveToolCard = outcome.error !== undefined
+        ? { ...call, status: 'error', error: outcome.error }
+        : { ...call, status: 'done', result: outcome.result };
+      setToolCalls(prev => prev.map(c => c.id === call.id && c.status === 'running' ? settled : c));
+      return { id: call.id, name: call.name, response: outcome.error !== undefined ? { error: outcome.error } : { output: outcome.result } };
+    }));
+    const answered = functionResponses.filter(response => !cancelledToolCallsRef.current.has(response.id));
+    // A reconnected session never saw these calls
+    if (answered.length && session === sessionRef.current) {
+      session?.then(s => s.sendToolResponse({ functionResponses: answered }), () => {});
+    }
+  };
 
-      const userLang = navigator.language || 'en-US';
-      const isThai = userLang.startsWith('th');
-      
-      const systemInstruction = isThai 
-        ? 'คุณคือผู้ช่วย AI อัจฉริยะที่พูดภาษาไทยได้อย่างคล่องแคล่ว สุภาพ และเป็นธรรมชาติ โปรดฟังและตอบโต้เป็นภาษาไทยเป็นหลัก แต่สามารถสลับเป็นภาษาอังกฤษได้ทันทีหากคู่สนทนาพูดภาษาอังกฤษ'
-        : 'You are a helpful AI assistant. Detect the user language automatically. If the user speaks Thai, respond in Thai. If the user speaks English, respond in English.';
-      
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          // The `responseModalities` array must contain `Modality.AUDIO` enum member.
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedVoice } }, // Use selectedVoice
-          },
-          systemInstruction: systemInstruction,
+  const cancelToolCalls = (ids: string[]) => {
+    ids.forEach(id => cancelledToolCallsRef.current.add(id));
+    setToolCalls(prev => prev.map(call => ids.includes(call.id) && call.status === 'running'
+      ? { ...call, status: 'error', error: translations.live.toolCancelled }
+      : call));
+  };
+
+  // Alerts the user and asks the model to announce it
+  const handleTimerFinished = (timer: LiveTimer) => {
+    setTimerAlert(translations.live.timerFinished.replace('{label}', timer.label));
+    if (!sessionOpenRef.current) return;
+    withSession(session => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: `The timer "${timer.label}" has just finished. Let me know.` }] }],
+      turnComplete: true,
+    }));
+  };
+
+  const openSession = (provider: AIProvider, capture: MicCapture) => {
+    const generation = ++sessionGenerationRef.current;
+    const isCurrent = () => generation === sessionGenerationRef.current;
+    // onclose and a rejected connect can both report the same failure; only the first counts
+    let lost = false;
+    const connectionLost = (reason: string, reportFailure: () => void) => {
+      if (lost) return;
+      lost = true;
+      sessionOpenRef.current = false;
+      handleConnectionLost(provider, capture, reason, reportFailure);
+    };
+
+    const userLang = navigator.language || 'en-US';
+    const isThai = userLang.startsWith('th');
+    
+    const systemInstruction = isThai 
+      ? 'คุณคือผู้ช่วย AI อัจฉริยะที่พูดภาษาไทยได้อย่างคล่องแคล่ว สุภาพ และเป็นธรรมชาติ โปรดฟังและตอบโต้เป็นภาษาไทยเป็นหลัก แต่สามารถสลับเป็นภาษาอังกฤษได้ทันทีหากคู่สนทนาพูดภาษาอังกฤษ'
+      : 'You are a helpful AI assistant. Detect the user language automatically. If the user speaks Thai, respond in Thai. If the user speaks English, respond in English.';
+    
+    const sessionPromise = provider.connectLive({
+      model: modelSettings.model,
+      config: {
+        ...toGenerationConfig(modelSettings),
+        // The `responseModalities` array must contain `Modality.AUDIO` enum member.
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedVoice } }, // Use selectedVoice
         },
-        callbacks: {
-          onopen: () => {
-            console.log("Live session opened");
-            setIsConnected(true);
-            
-            // Setup Input Processing
-            const source = inputCtx.createMediaStreamSource(stream);
-            inputSourceRef.current = source;
+        systemInstruction: systemInstruction,
+        realtimeInputConfig: toRealtimeInputConfig(inputSettings),
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // Resume where the last connection left off, and let long calls shed old context instead of hitting the limit
+        sessionResumption: { handle: resumeHandleRef.current ?? undefined },
+        contextWindowCompression: { slidingWindow: {} },
+        tools: [{ functionDeclarations: (toolkitRef.current?.tools || []).map(tool => tool.declaration) }],
+      },
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          console.log("Live session opened");
+          sessionOpenRef.current = true;
+          lastSessionErrorRef.current = null;
+
+          if (callActiveRef.current) {
+            reconnectAttemptRef.current = 0;
+            setReconnectAttempt(null);
+            const pending = pendingAudioRef.current;
+            pendingAudioRef.current = [];
+            sessionPromise.then(session => {
+              if (isTalkingRef.current) session.sendRealtimeInput({ activityStart: {} });
+              pending.forEach(data => session.sendRealtimeInput({ media: { mimeType: CAPTURE_MIME_TYPE, data } }));
+            });
+            return;
+          }
+
+          callActiveRef.current = true;
+          setIsConnected(true);
+          setCallStartedAt(Date.now());
+          
+          capture.start();
+        },
+        onmessage: async (msg: LiveServerMessage) => {
+          if (!isCurrent()) return;
+          if (msg.usageMetadata) recordUsage(AppMode.Live, modelSettings.model, msg.usageMetadata);
+          const resumption = msg.sessionResumptionUpdate;
+          if (resumption?.resumable && resumption.newHandle) resumeHandleRef.current = resumption.newHandle;
+          // The server is about to drop the connection; move to a fresh one before it does
+          if (msg.goAway) {
+            console.warn("Live session ending soon:", msg.goAway.timeLeft);
+            switchSession(provider, capture);
+            return;
+          }
+          if (msg.toolCall?.functionCalls?.length) runToolCalls(msg.toolCall.functionCalls);
+          if (msg.toolCallCancellation?.ids?.length) cancelToolCalls(msg.toolCallCancellation.ids);
+
+          const userText = msg.serverContent?.inputTranscription?.text;
+          if (userText) addTranscription('user', userText);
+          const modelText = msg.serverContent?.outputTranscription?.text;
+          if (modelText) addTranscription('model', modelText);
+
+          // The user talked over the reply: the server has dropped the rest of the turn
+          if (msg.serverContent?.interrupted) {
+            stopPlayback();
+            modelTurnEndedRef.current = true;
+            transcriptRef.current = markInterrupted(transcriptRef.current);
+            setTranscript(transcriptRef.current);
+            return;
+          }
+          if (msg.serverContent?.turnComplete) modelTurnEndedRef.current = true;
+
+          for (const part of msg.serverContent?.modelTurn?.parts || []) {
+            const base64Audio = part.inlineData?.data;
+            if (!base64Audio) continue;
+            const buffer = base64ToArrayBuffer(base64Audio);
             
-            // Use ScriptProcessor for raw PCM access
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-            processorRef.current = processor;
-
-            processor.onaudioprocess = (e) => {
-               if (isMuted) return;
-
-               const inputData = e.inputBuffer.getChannelData(0);
-               
-               // Simple volume meter for Input
-               let sum = 0;
-               for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-               const rms = Math.sqrt(sum / inputData.length);
-               setVolumeLevel(Math.min(rms * 5, 1)); // Scale for visuals
-
-               // Convert to PCM 16-bit
-               const int16Data = float32ToInt16(inputData);
-               const base64Data = arrayBufferToBase64(int16Data.buffer);
-
-               sessionPromise.then(session => {
-                  session.sendRealtimeInput({
-                    media: {
-                      mimeType: 'audio/pcm;rate=16000',
-                      data: base64Data
-                    }
-                  });
-               });
-            };
-
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio) {
-              const buffer = base64ToArrayBuffer(base64Audio);
-              
-              const audioCtx = outputAudioContextRef.current;
-              if (!audioCtx) return;
-
-              const int16 = new Int16Array(buffer);
-              const float32 = new Float32Array(int16.length);
-              for(let i=0; i<int16.length; i++) {
-                float32[i] = int16[i] / 32768.0;
-              }
-
-              const audioBuffer = audioCtx.createBuffer(1, float32.length, 24000);
-              audioBuffer.getChannelData(0).set(float32);
-
-              const source = audioCtx.createBufferSource();
-              source.buffer = audioBuffer;
-              
-              if (outputAnalyserRef.current) {
-                source.connect(outputAnalyserRef.current);
-              } else {
-                source.connect(audioCtx.destination);
-              }
-
-              const currentTime = audioCtx.currentTime;
-              if (nextStartTimeRef.current < currentTime) {
-                nextStartTimeRef.current = currentTime;
-              }
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-            }
-          },
-          onclose: (event) => {
-            console.log("Session closed:", event);
-            setError(`Session closed unexpectedly. Code: ${event.code}, Reason: ${event.reason || 'N/A'}`);
-            disconnect();
-            // Re-check API key status on close
-            checkApiKeyStatus();
-          },
-          onerror: (errEvent: ErrorEvent) => {
-            console.error("Session error:", errEvent);
-            console.trace();
-            let userMessage = translations.live.error; // Use translations.live.error
-            if (errEvent.message) {
-              userMessage = `Connection error: ${errEvent.message}.`;
-            } else if (errEvent.error) {
-              userMessage = `Connection error: ${errEvent.error.message || 'Unknown network issue'}.`;
+            const audioCtx = outputAudioContextRef.current;
+            if (!audioCtx) return;
+
+            const int16 = new Int16Array(buffer);
+            const float32 = new Float32Array(int16.length);
+            for(let i=0; i<int16.length; i++) {
+              float32[i] = int16[i] / 32768.0;
             }
-            // NEW: Handle "Requested entity was not found." for API key re-selection
-            if (userMessage.includes("Requested entity was not found.")) {
-              setHasApiKey(false);
-              userMessage = (translations.apiKey || {}).reselectKey; // Defensive access
+
+            const audioBuffer = audioCtx.createBuffer(1, float32.length, 24000);
+            audioBuffer.getChannelData(0).set(float32);
+
+            const source = audioCtx.createBufferSource();
+            source.buffer = audioBuffer;
+            
+            if (outputAnalyserRef.current) {
+              source.connect(outputAnalyserRef.current);
             } else {
-              userMessage += " Please check your network and API key configuration.";
+              source.connect(audioCtx.destination);
+            }
+
+            const currentTime = audioCtx.currentTime;
+            if (nextStartTimeRef.current < currentTime) {
+              nextStartTimeRef.current = currentTime;
             }
-            setError(userMessage);
-            disconnect();
+            source.onended = () => scheduledSourcesRef.current.delete(source);
+            scheduledSourcesRef.current.add(source);
+            source.start(nextStartTimeRef.current);
+            nextStartTimeRef.current += audioBuffer.duration;
           }
+        },
+        onclose: (event) => {
+          if (!isCurrent()) return;
+          console.log("Session closed:", event);
+          connectionLost(event.reason || lastSessionErrorRef.current || '', () =>
+            setError(`Session closed unexpectedly. Code: ${event.code}, Reason: ${event.reason || 'N/A'}`));
+        },
+        onerror: (errEvent: ErrorEvent) => {
+          if (!isCurrent()) return;
+          console.error("Session error:", errEvent);
+          console.trace();
+          let userMessage = translations.live.error; // Use translations.live.error
+          if (errEvent.message) {
+            userMessage = `Connection error: ${errEvent.message}.`;
+          } else if (errEvent.error) {
+            userMessage = `Connection error: ${errEvent.error.message || 'Unknown network issue'}.`;
+          }
+          // A dropped call is retried from onclose, which follows
+          if (callActiveRef.current) {
+            lastSessionErrorRef.current = userMessage;
+            return;
+          }
+          // NEW: Handle "Requested entity was not found." for API key re-selection
+          if (userMessage.includes("Requested entity was not found.")) {
+            setHasApiKey(false);
+            userMessage = (translations.apiKey || {}).reselectKey; // Defensive access
+          } else {
+            userMessage += " Please check your network and API key configuration.";
+          }
+          setError(userMessage);
+          disconnect();
         }
-      });
-      
-      sessionRef.current = sessionPromise;
+      }
+    });
+    sessionPromise.catch(err => {
+      if (!isCurrent()) return;
+      console.error("Live connection failed:", err);
+      connectionLost(err?.message || '', () =>
+        setError(`Connection failed: ${err?.message || 'Unknown error'}. Please check your network and API key configuration.`));
+    });
+    sessionRef.current = sessionPromise;
+  };
+
+  // Moves the call to a new connection, resuming from the latest handle
+  const switchSession = (provider: AIProvider, capture: MicCapture) => {
+    const previous = sessionRef.current;
+    sessionOpenRef.current = false;
+    openSession(provider, capture); // Replaces the generation, so the old session's close is ignored
+    previous?.then(session => session.close(), () => {});
+  };
+
+  /**
+   * Retries a dropped call with backoff. A connection that never opened, a
+   * key or quota problem, or running out of attempts ends the call instead;
+   * `reportFailure` shows why.
+   */
+  const handleConnectionLost = (provider: AIProvider, capture: MicCapture, reason: string, reportFailure: () => void) => {
+    const kind = classifyRequestError(new Error(reason));
+    const isFatal = kind === 'invalidKey' || kind === 'quota' || kind === 'safety';
+    if (!callActiveRef.current || isFatal) {
+      reportFailure();
+      disconnect();
+      checkApiKeyStatus(); // Re-check API key status on close
+      return;
+    }
+    if (reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      setError(translations.live.reconnectFailed);
+      disconnect();
+      return;
+    }
+
+    const attempt = ++reconnectAttemptRef.current;
+    setReconnectAttempt(attempt);
+    const controller = new AbortController();
+    reconnectAbortRef.current = controller;
+    (async () => {
+      try {
+        await waitForOnline(controller.signal);
+        if (attempt > 1) await sleep(backoffDelay(attempt - 1), controller.signal);
+      } catch {
+        return; // Hung up while waiting
+      }
+      try {
+        openSession(provider, capture);
+      } catch (err: any) {
+        handleConnectionLost(provider, capture, err?.message || '', reportFailure);
+      }
+    })();
+  };
+
+  const connectToLive = async () => {
+    if (!(await confirmWithinBudget(translations.usage.budgetExceeded))) return;
+    setError(null);
+    transcriptRef.current = [];
+    setTranscript([]);
+    setSavedTranscriptTitle(null);
+    setToolCalls([]);
+    setTimerAlert(null);
+    cancelledToolCallsRef.current.clear();
+    
+    // NEW: API Key check before connecting (the mock provider needs none)
+    const provider = getProvider();
+    if (provider.requiresApiKey) {
+      if (typeof window.aistudio === 'undefined') {
+        setError((translations.apiKey || {}).keyNotFound); // Defensive access
+        return;
+      }
+      if (!(await window.aistudio.hasSelectedApiKey())) {
+        setHasApiKey(false);
+        setError((translations.apiKey || {}).selectKey); // Defensive access
+        return;
+      }
+    }
+    setHasApiKey(true); // Assume API key is present and valid
 
+    try {
+      micModeRef.current = inputSettings.micMode;
+      const capture = await initializeAudio(sendAudio);
+      toolkitRef.current = createLiveToolkit({ onTimerFinished: handleTimerFinished });
+      openSession(provider, capture);
     } catch (e: any) {
       console.error("Connection failed:", e);
       console.trace();
@@ -244,6 +598,12 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoi
   };
 
   const disconnect = () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setIsRecording(false);
+    stopTalking();
+    stopPlayback();
+    modelTurnEndedRef.current = true;
     setIsConnected(false);
     setVolumeLevel(0);
     setAiVolume(0);
@@ -253,40 +613,66 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoi
       rafRef.current = null;
     }
 
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current.onaudioprocess = null;
-      processorRef.current = null;
-    }
-    if (inputSourceRef.current) {
-      inputSourceRef.current.disconnect();
-      inputSourceRef.current = null;
-    }
+    captureRef.current?.stop();
+    captureRef.current = null;
+    stopVideo();
     if (outputAnalyserRef.current) {
       outputAnalyserRef.current.disconnect();
       outputAnalyserRef.current = null;
     }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    if (inputAudioContextRef.current) {
-      inputAudioContextRef.current.close();
-      inputAudioContextRef.current = null;
-    }
+    
+    // Stops any reconnect in progress; callbacks of the closing session are ignored from here on
+    sessionGenerationRef.current++;
+    reconnectAbortRef.current?.abort();
+    reconnectAbortRef.current = null;
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(null);
+    callActiveRef.current = false;
+    sessionOpenRef.current = false;
+    resumeHandleRef.current = null;
+    pendingAudioRef.current = [];
+    toolkitRef.current?.dispose();
+    toolkitRef.current = null;
+
+    withSession(session => session.close());
+    sessionRef.current = null;
+
+    // Saved once the microphone and session are released, so a failed save cannot leave them open
+    const savedTranscript = saveCallTranscript();
     if (outputAudioContextRef.current) {
-      outputAudioContextRef.current.close();
+      const outputCtx = outputAudioContextRef.current;
       outputAudioContextRef.current = null;
+      // The recorder drains through the context, so it closes once the file is written
+      if (recorder) finishRecording(recorder, savedTranscript).finally(() => outputCtx.close());
+      else outputCtx.close();
     }
-    
-    sessionRef.current?.then((s: any) => {
-        if(s.close) s.close();
-    });
-    sessionRef.current = null;
   };
 
   const toggleMute = () => {
-    setIsMuted(!isMuted);
+    const muted = !isMutedRef.current;
+    isMutedRef.current = muted;
+    setIsMuted(muted);
+    recorderRef.current?.setMicEnabled(!muted);
+    // Lets the server's activity detection end the user's turn instead of waiting for more audio
+    if (muted && sessionOpenRef.current) withSession(session => session.sendRealtimeInput({ audioStreamEnd: true }));
+  };
+
+  // Push-to-talk: the held key or button brackets the user's turn, since server-side detection is off
+  const startTalking = () => {
+    if (!sessionRef.current || isTalkingRef.current) return;
+    isTalkingRef.current = true;
+    setIsTalking(true);
+    recorderRef.current?.setMicEnabled(true);
+    stopPlayback(); // Barge in at once rather than waiting for the server's interrupted signal
+    if (sessionOpenRef.current) withSession(session => session.sendRealtimeInput({ activityStart: {} }));
+  };
+
+  const stopTalking = () => {
+    if (!isTalkingRef.current) return;
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    recorderRef.current?.setMicEnabled(false);
+    if (sessionOpenRef.current) withSession(session => session.sendRealtimeInput({ activityEnd: {} }));
   };
 
   const handleSelectApiKey = async () => {
@@ -329,6 +715,66 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoi
     };
   }, [isConnected]);
 
+  // Space works as the push-to-talk key unless focus is in a form field
+  useEffect(() => {
+    if (!isConnected || inputSettings.micMode !== 'pushToTalk') return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      e.preventDefault();
+      stopTalking();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+  }, [isConnected, inputSettings.micMode]);
+
+  useEffect(() => {
+    saveRecordingMode(recordingMode);
+  }, [recordingMode]);
+
+  useEffect(() => {
+    saveVideoSettings(videoSettings);
+  }, [videoSettings]);
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.srcObject = videoStream;
+  }, [videoStream]);
+
+  // Averages what was actually sent over the last few seconds
+  useEffect(() => {
+    if (!videoSource) return;
+    const timer = window.setInterval(() => {
+      const since = Date.now() - VIDEO_STATS_WINDOW_MS;
+      const frames = sentFramesRef.current = sentFramesRef.current.filter(frame => frame.at >= since);
+      const latest = frames[frames.length - 1];
+      setVideoStats({
+        kilobytesPerSecond: frames.reduce((sum, frame) => sum + frame.bytes, 0) / 1024 / (VIDEO_STATS_WINDOW_MS / 1000),
+        framesPerSecond: frames.length / (VIDEO_STATS_WINDOW_MS / 1000),
+        width: latest?.width ?? 0,
+        height: latest?.height ?? 0,
+      });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [videoSource]);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [transcript, toolCalls]);
+
   useEffect(() => {
     // Initial check for API key when component mounts
     checkApiKeyStatus();
@@ -345,6 +791,13 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoi
     };
   }, [selectedVoice, hasApiKey]); // Add hasApiKey to dependency array
 
+  // Tool call cards sit in the transcript at the moment they were made
+  const timeline = [
+    ...transcript.map(entry => ({ timestamp: entry.timestamp, entry })),
+    ...toolCalls.map(call => ({ timestamp: call.timestamp, call })),
+  ].sort((a, b) => a.timestamp - b.timestamp);
+  // Live-only tools are labelled alongside the chat tools the call shares
+  const toolTranslations = { ...translations.chat, toolNames: { ...translations.chat.toolNames, ...translations.live.toolNames } };
 
   return (
     <div className="flex flex-col h-full bg-white dark:bg-slate-900 rounded-xl overflow-hidden relative border border-slate-200 dark:border-slate-800 transition-colors duration-200">
@@ -362,11 +815,46 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoi
             <Radio size={18} />
           </div>
           <h2 className="font-semibold text-slate-800 dark:text-slate-100">{translations.sidebar.live}</h2>
+          {isRecording && (
+            <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-300 text-xs font-semibold" title={translations.live.recordingActive}>
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+              REC
+            </span>
+          )}
         </div>
         
-        {/* Voice Selection Dropdown */}
-        <div className="flex items-center gap-2">
+        {/* Voice, Microphone and Recording Selection */}
+        <div className="flex flex-wrap items-center justify-end gap-2">
           <Settings size={18} className="text-slate-500 dark:text-slate-400" />
+          <label htmlFor="mic-mode-select" className="sr-only">{translations.live.micModeLabel}</label>
+          <select
+            id="mic-mode-select"
+            value={inputSettings.micMode}
+            onChange={(e) => setInputSettings({ ...inputSettings, micMode: e.target.value as LiveMicMode })}
+            disabled={isConnected} // Applied when the session connects
+            className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 text-sm font-medium text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          >
+            {LIVE_MIC_MODES.map(mode => (
+              <option key={mode} value={mode}>{translations.live.micModes[mode]}</option>
+            ))}
+          </select>
+          {inputSettings.micMode === 'openMic' && (
+            <>
+              <label htmlFor="sensitivity-select" className="sr-only">{translations.live.sensitivityLabel}</label>
+              <select
+                id="sensitivity-select"
+                value={inputSettings.sensitivity}
+                onChange={(e) => setInputSettings({ ...inputSettings, sensitivity: e.target.value as LiveInputSettings['sensitivity'] })}
+                disabled={isConnected}
+                title={translations.live.sensitivityLabel}
+                className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 text-sm font-medium text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+              >
+                {VOICE_ACTIVITY_SENSITIVITIES.map(level => (
+                  <option key={level} value={level}>{translations.live.sensitivities[level]}</option>
+                ))}
+              </select>
+            </>
+          )}
           <label htmlFor="voice-select" className="sr-only">{translations.live.voiceLabel}</label>
           <select
             id="voice-select"
@@ -381,133 +869,333 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ translations, selectedVoi
               </option>
             ))}
           </select>
+          <label htmlFor="recording-select" className="sr-only">{translations.live.recordingLabel}</label>
+          <select
+            id="recording-select"
+            value={recordingMode}
+            onChange={(e) => setRecordingMode(e.target.value as LiveRecordingMode)}
+            disabled={isConnected}
+            title={translations.live.recordingLabel}
+            className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 text-sm font-medium text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          >
+            {RECORDING_MODES.map(mode => (
+              <option key={mode} value={mode}>{translations.live.recordingModes[mode]}</option>
+            ))}
+          </select>
+          <label htmlFor="video-frame-rate-select" className="sr-only">{translations.live.videoFrameRateLabel}</label>
+          <select
+            id="video-frame-rate-select"
+            value={videoSettings.frameRate}
+            onChange={(e) => setVideoSettings({ ...videoSettings, frameRate: Number(e.target.value) })}
+            disabled={videoSource !== null} // Applied when sharing starts
+            title={translations.live.videoFrameRateLabel}
+            className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 text-sm font-medium text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          >
+            {VIDEO_FRAME_RATES.map(rate => (
+              <option key={rate} value={rate}>{translations.live.videoFrameRate.replace('{rate}', String(rate))}</option>
+            ))}
+          </select>
+          <label htmlFor="video-width-select" className="sr-only">{translations.live.videoResolutionLabel}</label>
+          <select
+            id="video-width-select"
+            value={videoSettings.maxWidth}
+            onChange={(e) => setVideoSettings({ ...videoSettings, maxWidth: Number(e.target.value) })}
+            disabled={videoSource !== null}
+            title={translations.live.videoResolutionLabel}
+            className="bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 text-sm font-medium text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          >
+            {VIDEO_WIDTHS.map(width => (
+              <option key={width} value={width}>{translations.live.videoWidth.replace('{width}', String(width))}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setIsRecordingsOpen(true)}
+            className="p-2 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+            title={translations.live.recordings}
+          >
+            <Disc size={18} />
+          </button>
         </div>
       </div>
 
-      {/* Main Content */}
-      <div className="relative z-10 flex flex-col items-center justify-center h-full p-8 space-y-8">
-        
-        {/* Visualizer Circle */}
-        <div className="relative group">
-          {/* User Voice Glow (Blue) */}
-          <div className={`absolute inset-0 bg-blue-500 rounded-full blur-2xl transition-all duration-100 ease-out`} 
-               style={{ 
-                 transform: `scale(${1 + volumeLevel})`,
-                 opacity: volumeLevel > 0.01 ? 0.4 : 0
-               }} 
-          />
-          
-          {/* AI Voice Glow (Purple/Indigo) */}
-          <div className={`absolute inset-0 bg-indigo-500 rounded-full blur-2xl transition-all duration-100 ease-out mix-blend-screen`}
-               style={{ 
-                 transform: `scale(${1 + aiVolume * 2})`,
-                 opacity: aiVolume > 0.01 ? 0.6 : 0
-               }}
-          />
-
-          {/* Core Avatar */}
-          <div className={`
-            w-48 h-48 rounded-full border-4 flex items-center justify-center relative shadow-2xl transition-all duration-300 z-10
-            ${isConnected 
-              ? 'border-blue-400/50 bg-white/80 dark:bg-slate-800/80 backdrop-blur-md' 
-              : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800'}
-            ${aiVolume > 0.1 ? 'border-indigo-400 dark:border-indigo-400' : ''}
-          `}>
-             {isConnected ? (
-               <div className="flex gap-1 items-end h-16">
-                 {[...Array(5)].map((_, i) => (
-                   <div 
-                     key={i} 
-                     className={`w-3 rounded-full transition-all duration-75 ${
-                        aiVolume > 0.05 ? 'bg-indigo-500 dark:bg-indigo-400' : 'bg-blue-500 dark:bg-blue-400'
-                     }`}
-                     style={{ 
-                       height: `${20 + (Math.max(volumeLevel, aiVolume) * 100 * Math.random())}%`,
-                       opacity: 0.8 
-                     }}
-                   />
-                 ))}
-               </div>
-             ) : (
-               <Radio size={48} className="text-slate-300 dark:text-slate-600" />
-             )}
-          </div>
-          
-          {isConnected && (
-            <div className="absolute -bottom-12 left-1/2 -translate-x-1/2 text-sm font-medium animate-pulse whitespace-nowrap transition-colors duration-300
-              ${aiVolume > 0.05 ? 'text-indigo-600 dark:text-indigo-300' : 'text-blue-600 dark:text-blue-300'}"
-            >
-              {aiVolume > 0.05 ? "Gemini is speaking..." : translations.live.listening}
+      <div className="relative z-10 flex flex-col lg:flex-row flex-1 min-h-0">
+        {/* Main Content */}
+        <div className="flex flex-col items-center justify-center flex-1 p-8 space-y-8">
+
+          {/* Local preview of the shared camera or screen */}
+          {videoStream && (
+            <div className="relative w-full max-w-md rounded-xl overflow-hidden border border-slate-200 dark:border-slate-700 bg-black shadow-lg">
+              <video
+                ref={previewRef}
+                autoPlay
+                muted
+                playsInline
+                className={`w-full max-h-64 object-contain ${videoSource === 'camera' ? '-scale-x-100' : ''}`}
+              />
+              <div className="absolute bottom-2 left-2 flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-black/60 text-white text-xs font-mono" title={translations.live.videoBandwidth}>
+                <Gauge size={12} />
+                {videoStats
+                  ? `${videoStats.kilobytesPerSecond.toFixed(1)} kB/s · ${videoStats.framesPerSecond.toFixed(1)} fps${videoStats.width ? ` · ${videoStats.width}×${videoStats.height}` : ''}`
+                  : translations.live.videoStarting}
+              </div>
             </div>
           )}
-        </div>
+        
+          {/* Visualizer Circle */}
+          <div className="relative group">
+            {/* User Voice Glow (Blue) */}
+            <div className={`absolute inset-0 bg-blue-500 rounded-full blur-2xl transition-all duration-100 ease-out`} 
+                 style={{ 
+                   transform: `scale(${1 + volumeLevel})`,
+                   opacity: volumeLevel > 0.01 ? 0.4 : 0
+                 }} 
+            />
+          
+            {/* AI Voice Glow (Purple/Indigo) */}
+            <div className={`absolute inset-0 bg-indigo-500 rounded-full blur-2xl transition-all duration-100 ease-out mix-blend-screen`}
+                 style={{ 
+                   transform: `scale(${1 + aiVolume * 2})`,
+                   opacity: aiVolume > 0.01 ? 0.6 : 0
+                 }}
+            />
 
-        {/* Status Text and API Key Prompt */}
-        <div className="text-center space-y-2 h-16 w-full max-w-lg">
-          {!isConnected && !error && hasApiKey && (
-            <p className="text-slate-500 dark:text-slate-400 transition-colors">
-              {translations.live.initial}
-            </p>
-          )}
-          {error && (
-             <div className="flex items-center justify-center gap-2 text-red-600 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 px-4 py-2 rounded-lg">
-               <AlertCircle size={16} />
-               <span className="text-sm">{error}</span>
-             </div>
-          )}
-          {!hasApiKey && !isConnected && (
-            <div className="flex flex-col items-center gap-3">
-              <p className="text-orange-600 dark:text-orange-300 text-sm">{(translations.apiKey || {}).selectKey}</p> {/* Defensive access */}
-              <button
-                onClick={handleSelectApiKey}
-                className="group relative flex items-center justify-center gap-2 px-6 py-3 bg-orange-600 hover:bg-orange-500 text-white rounded-full font-semibold transition-all shadow-lg hover:shadow-orange-500/25 active:scale-95"
+            {/* Core Avatar */}
+            <div className={`
+              w-48 h-48 rounded-full border-4 flex items-center justify-center relative shadow-2xl transition-all duration-300 z-10
+              ${isConnected 
+                ? 'border-blue-400/50 bg-white/80 dark:bg-slate-800/80 backdrop-blur-md' 
+                : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800'}
+              ${aiVolume > 0.1 ? 'border-indigo-400 dark:border-indigo-400' : ''}
+            `}>
+               {isConnected ? (
+                 <div className="flex gap-1 items-end h-16">
+                   {[...Array(5)].map((_, i) => (
+                     <div 
+                       key={i} 
+                       className={`w-3 rounded-full transition-all duration-75 ${
+                          aiVolume > 0.05 ? 'bg-indigo-500 dark:bg-indigo-400' : 'bg-blue-500 dark:bg-blue-400'
+                       }`}
+                       style={{ 
+                         height: `${20 + (Math.max(volumeLevel, aiVolume) * 100 * Math.random())}%`,
+                         opacity: 0.8 
+                       }}
+                     />
+                   ))}
+                 </div>
+               ) : (
+                 <Radio size={48} className="text-slate-300 dark:text-slate-600" />
+               )}
+            </div>
+          
+            {isConnected && (
+              <div className="absolute -bottom-12 left-1/2 -translate-x-1/2 text-sm font-medium animate-pulse whitespace-nowrap transition-colors duration-300
+                ${aiVolume > 0.05 ? 'text-indigo-600 dark:text-indigo-300' : 'text-blue-600 dark:text-blue-300'}"
               >
-                <KeyRound size={18} />
-                <span>{(translations.apiKey || {}).selectKeyButton}</span> {/* Defensive access */}
-              </button>
-              <p className="text-xs text-slate-500 dark:text-slate-400">
-                {(translations.apiKey || {}).billingMessage} <a href={(translations.apiKey || {}).billingLink} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">{(translations.apiKey || {}).billingLinkText}</a> {/* Defensive access */}
+                {reconnectAttempt !== null
+                  ? translations.live.reconnecting.replace('{attempt}', String(reconnectAttempt)).replace('{max}', String(MAX_RECONNECT_ATTEMPTS))
+                  : aiVolume > 0.05
+                  ? "Gemini is speaking..."
+                  : inputSettings.micMode === 'pushToTalk'
+                    ? (isTalking ? translations.live.listening : translations.live.pushToTalkHint)
+                    : (isMuted ? translations.live.muted : translations.live.listening)}
+              </div>
+            )}
+          </div>
+
+          {/* Status Text and API Key Prompt */}
+          <div className="text-center space-y-2 h-16 w-full max-w-lg">
+            {!isConnected && !error && hasApiKey && (
+              <p className="text-slate-500 dark:text-slate-400 transition-colors">
+                {translations.live.initial}
               </p>
-            </div>
-          )}
-        </div>
+            )}
+            {error && (
+               <div className="flex items-center justify-center gap-2 text-red-600 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 px-4 py-2 rounded-lg">
+                 <AlertCircle size={16} />
+                 <span className="text-sm">{error}</span>
+               </div>
+            )}
+            {!hasApiKey && !isConnected && (
+              <div className="flex flex-col items-center gap-3">
+                <p className="text-orange-600 dark:text-orange-300 text-sm">{(translations.apiKey || {}).selectKey}</p> {/* Defensive access */}
+                <button
+                  onClick={handleSelectApiKey}
+                  className="group relative flex items-center justify-center gap-2 px-6 py-3 bg-orange-600 hover:bg-orange-500 text-white rounded-full font-semibold transition-all shadow-lg hover:shadow-orange-500/25 active:scale-95"
+                >
+                  <KeyRound size={18} />
+                  <span>{(translations.apiKey || {}).selectKeyButton}</span> {/* Defensive access */}
+                </button>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {(translations.apiKey || {}).billingMessage} <a href={(translations.apiKey || {}).billingLink} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">{(translations.apiKey || {}).billingLinkText}</a> {/* Defensive access */}
+                </p>
+              </div>
+            )}
+          </div>
 
-        {/* Controls */}
-        <div className="flex items-center gap-6">
-          {!isConnected && hasApiKey ? (
-            <button
-              onClick={connectToLive}
-              className="group relative flex items-center justify-center gap-3 px-8 py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-full font-semibold transition-all shadow-lg hover:shadow-blue-500/25 active:scale-95"
-            >
-              <Mic size={20} />
-              <span>{translations.live.start}</span>
-            </button>
-          ) : (isConnected && (
-            <>
+          {/* Controls */}
+          <div className="flex items-center gap-6">
+            {!isConnected && hasApiKey ? (
               <button
-                onClick={toggleMute}
-                className={`p-4 rounded-full transition-all border ${
-                  isMuted 
-                    ? 'bg-red-100 dark:bg-red-500/20 border-red-200 dark:border-red-500/50 text-red-600 dark:text-red-400 hover:bg-red-200 dark:hover:bg-red-500/30' 
-                    : 'bg-slate-100 dark:bg-slate-700/50 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-white hover:bg-slate-200 dark:hover:bg-slate-700'
-                }`}
-                title={isMuted ? "Unmute Microphone" : "Mute Microphone"}
+                onClick={connectToLive}
+                className="group relative flex items-center justify-center gap-3 px-8 py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-full font-semibold transition-all shadow-lg hover:shadow-blue-500/25 active:scale-95"
               >
-                {isMuted ? <MicOff size={24} /> : <Mic size={24} />}
+                <Mic size={20} />
+                <span>{translations.live.start}</span>
               </button>
+            ) : (isConnected && (
+              <>
+                {inputSettings.micMode === 'pushToTalk' ? (
+                  <button
+                    onPointerDown={(e) => {
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                      startTalking();
+                    }}
+                    onPointerUp={stopTalking}
+                    onPointerCancel={stopTalking}
+                    className={`px-6 py-4 rounded-full font-semibold transition-all border select-none touch-none flex items-center gap-2 ${
+                      isTalking
+                        ? 'bg-blue-600 border-blue-600 text-white shadow-lg shadow-blue-500/25 scale-105'
+                        : 'bg-slate-100 dark:bg-slate-700/50 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-white hover:bg-slate-200 dark:hover:bg-slate-700'
+                    }`}
+                  >
+                    <Mic size={20} />
+                    <span>{isTalking ? translations.live.talking : translations.live.holdToTalk}</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={toggleMute}
+                    className={`p-4 rounded-full transition-all border ${
+                      isMuted 
+                        ? 'bg-red-100 dark:bg-red-500/20 border-red-200 dark:border-red-500/50 text-red-600 dark:text-red-400 hover:bg-red-200 dark:hover:bg-red-500/30' 
+                        : 'bg-slate-100 dark:bg-slate-700/50 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-white hover:bg-slate-200 dark:hover:bg-slate-700'
+                    }`}
+                    title={isMuted ? "Unmute Microphone" : "Mute Microphone"}
+                  >
+                    {isMuted ? <MicOff size={24} /> : <Mic size={24} />}
+                  </button>
+                )}
 
-              <button
-                onClick={disconnect}
-                className="px-8 py-4 bg-red-600 hover:bg-red-500 text-white rounded-full font-semibold transition-all shadow-lg hover:shadow-red-500/25 active:scale-95 flex items-center gap-2"
-              >
-                <X size={20} />
-                <span>{translations.live.end}</span>
-              </button>
-            </>
-          ))}
+                {(['camera', 'screen'] as LiveVideoSource[]).map(source => (
+                  <button
+                    key={source}
+                    onClick={() => toggleVideo(source)}
+                    className={`p-4 rounded-full transition-all border ${
+                      videoSource === source
+                        ? 'bg-blue-600 border-blue-600 text-white shadow-lg shadow-blue-500/25'
+                        : 'bg-slate-100 dark:bg-slate-700/50 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-white hover:bg-slate-200 dark:hover:bg-slate-700'
+                    }`}
+                    title={videoSource === source ? translations.live.stopVideo[source] : translations.live.startVideo[source]}
+                  >
+                    {source === 'camera' ? <Camera size={24} /> : <MonitorUp size={24} />}
+                  </button>
+                ))}
+
+                <button
+                  onClick={disconnect}
+                  className="px-8 py-4 bg-red-600 hover:bg-red-500 text-white rounded-full font-semibold transition-all shadow-lg hover:shadow-red-500/25 active:scale-95 flex items-center gap-2"
+                >
+                  <X size={20} />
+                  <span>{translations.live.end}</span>
+                </button>
+              </>
+            ))}
+          </div>
         </div>
+
+        {/* Transcript Panel */}
+        {(isConnected || timeline.length > 0) && (
+          <aside className="flex flex-col w-full lg:w-96 max-h-72 lg:max-h-none border-t lg:border-t-0 lg:border-l border-slate-200 dark:border-slate-800 bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-800">
+              <div className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                <MessageSquareText size={16} />
+                <span>{translations.live.transcript}</span>
+              </div>
+              {!isConnected && transcript.length > 0 && (
+                <div className="flex items-center gap-1">
+                  <Download size={14} className="text-slate-400" />
+                  {(['markdown', 'text', 'json'] as LiveTranscriptExportKind[]).map(kind => (
+                    <button
+                      key={kind}
+                      onClick={() => downloadLiveTranscript(savedTranscriptTitle || translations.live.transcript, transcript, kind)}
+                      className="px-2 py-1 text-xs rounded-md text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                      title={translations.live.exportTranscript}
+                    >
+                      {translations.live.exportKinds[kind]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {timerAlert && (
+              <div className="flex items-center gap-2 px-4 py-2 text-sm bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 border-b border-amber-200 dark:border-amber-900/50">
+                <Timer size={16} className="flex-shrink-0" />
+                <span className="flex-1">{timerAlert}</span>
+                <button onClick={() => setTimerAlert(null)} className="p-0.5 hover:text-amber-900 dark:hover:text-amber-100" title={translations.live.dismissAlert}>
+                  <X size={14} />
+                </button>
+              </div>
+            )}
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              {timeline.length === 0 && (
+                <p className="text-sm text-slate-400 dark:text-slate-500 text-center">{translations.live.transcriptEmpty}</p>
+              )}
+              {timeline.map(item => 'call' in item ? (
+                <ToolInvocationList key={item.call.id} toolCalls={[item.call]} translations={toolTranslations} />
+              ) : (
+                <div key={item.entry.id} className={`flex flex-col ${item.entry.role === 'user' ? 'items-end' : 'items-start'}`}>
+                  <span className="text-[11px] text-slate-400 dark:text-slate-500 mb-0.5">
+                    {item.entry.role === 'user' ? translations.live.you : translations.live.model} · {formatCallOffset(item.entry.timestamp, callStartedAt || transcript[0].timestamp)}
+                    {item.entry.typed && (
+                      <Keyboard size={11} className="inline ml-1.5 -mt-0.5" aria-label={translations.live.typed} />
+                    )}
+                    {item.entry.interrupted && (
+                      <span className="ml-1.5 px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+                        {translations.live.interrupted}
+                      </span>
+                    )}
+                  </span>
+                  <p className={`max-w-[90%] px-3 py-2 rounded-2xl text-sm whitespace-pre-wrap ${
+                    item.entry.role === 'user'
+                      ? 'bg-blue-600 text-white rounded-br-sm'
+                      : 'bg-slate-100 dark:bg-slate-800 text-slate-800 dark:text-slate-100 rounded-bl-sm'
+                  }`}>
+                    {item.entry.text}
+                  </p>
+                </div>
+              ))}
+              <div ref={transcriptEndRef} />
+            </div>
+            {isConnected && (
+              <form onSubmit={sendTypedText} className="flex items-center gap-2 px-3 py-2 border-t border-slate-200 dark:border-slate-800">
+                <input
+                  type="text"
+                  value={typedText}
+                  onChange={(e) => setTypedText(e.target.value)}
+                  placeholder={translations.live.typePlaceholder}
+                  disabled={reconnectAttempt !== null}
+                  className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-800 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:opacity-50"
+                />
+                <button
+                  type="submit"
+                  disabled={!typedText.trim() || reconnectAttempt !== null}
+                  className="p-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:hover:bg-blue-600 transition-colors"
+                  title={translations.live.sendTyped}
+                >
+                  <Send size={16} />
+                </button>
+              </form>
+            )}
+            {savedTranscriptTitle && !isConnected && (
+              <p className="px-4 py-2 text-xs text-emerald-600 dark:text-emerald-400 border-t border-slate-200 dark:border-slate-800">
+                {translations.live.transcriptSaved}
+              </p>
+            )}
+          </aside>
+        )}
       </div>
       
+      <LiveRecordings translations={translations.live} isOpen={isRecordingsOpen} onClose={() => setIsRecordingsOpen(false)} />
+
       {/* Footer Info */}
       <div className="absolute bottom-4 right-4 text-xs text-slate-400 dark:text-slate-600 flex items-center gap-1 transition-colors">
         <Activity size={12} />
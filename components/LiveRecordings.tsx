@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2, Trash2, X } from 'lucide-react';
+import { LiveRecording } from '../types';
+import { deleteRecording, listRecordings } from '../services/recordingStore';
+import { formatFileSize } from '../utils/attachments';
+
+interface LiveRecordingsProps {
+  translations: any; // Live translation object
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const toFileName = (title: string, extension: string) =>
+  `${title.replace(/[\\/:*?"<>|,]+/g, '').trim().replace(/\s+/g, '-').substring(0, 60) || 'recording'}.${extension}`;
+
+const LiveRecordings: React.FC<LiveRecordingsProps> = ({ translations, isOpen, onClose }) => {
+  const [recordings, setRecordings] = useState<LiveRecording[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Object URLs for playback and download, keyed by recording id, then format
+  const [urls, setUrls] = useState<Record<string, { wav: string; webm?: string }>>({});
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    listRecordings()
+      .then(setRecordings)
+      .catch(err => console.error("Failed to load recordings:", err))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  useEffect(() => {
+    const next = Object.fromEntries(recordings.map(recording => [recording.id, {
+      wav: URL.createObjectURL(recording.wav),
+      webm: recording.webm ? URL.createObjectURL(recording.webm) : undefined,
+    }]));
+    setUrls(next);
+    return () => Object.values(next).forEach(({ wav, webm }) => {
+      URL.revokeObjectURL(wav);
+      if (webm) URL.revokeObjectURL(webm);
+    });
+  }, [recordings]);
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm(translations.confirmDeleteRecording)) return;
+    try {
+      await deleteRecording(id);
+      setRecordings(prev => prev.filter(recording => recording.id !== id));
+    } catch (err) {
+      console.error("Failed to delete recording:", err);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-slate-900/40 backdrop-blur-sm p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[75vh] flex flex-col bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-800">
+          <h3 className="font-semibold text-slate-800 dark:text-slate-100">{translations.recordings}</h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title={translations.closeRecordings}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {isLoading && (
+            <div className="flex justify-center py-8 text-slate-400">
+              <Loader2 size={20} className="animate-spin" />
+            </div>
+          )}
+          {!isLoading && recordings.length === 0 && (
+            <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">{translations.noRecordings}</p>
+          )}
+          {recordings.map(recording => (
+            <div key={recording.id} className="rounded-lg border border-slate-200 dark:border-slate-700 p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-sm text-slate-800 dark:text-slate-200 truncate">{recording.title}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {new Date(recording.createdAt).toLocaleString()} · {formatDuration(recording.durationMs)} · {formatFileSize(recording.wav.size)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDelete(recording.id)}
+                  className="p-1.5 text-slate-400 hover:text-red-500"
+                  title={translations.deleteRecording}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              {urls[recording.id] && (
+                <div className="flex items-center gap-2">
+                  <audio controls preload="metadata" src={urls[recording.id].wav} className="flex-1 h-9" />
+                  <a
+                    href={urls[recording.id].wav}
+                    download={toFileName(recording.title, 'wav')}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded-md text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  >
+                    <Download size={14} />
+                    <span>WAV</span>
+                  </a>
+                  {urls[recording.id].webm && (
+                    <a
+                      href={urls[recording.id].webm}
+                      download={toFileName(recording.title, 'webm')}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded-md text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                    >
+                      <Download size={14} />
+                      <span>WebM</span>
+                    </a>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveRecordings;
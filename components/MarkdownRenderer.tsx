@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import katex from 'katex';
+import { Copy, Check } from 'lucide-react';
+import { BlockNode, InlineNode, parseBlocks, parseInline } from '../utils/markdown';
+import { TokenType, tokenizeCode, guessLanguage } from '../utils/syntaxHighlight';
+
+interface MarkdownRendererProps {
+  text: string;
+  translations: any; // Needs `copy` and `copied`
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-slate-400 dark:text-slate-500 italic',
+  string: 'text-emerald-600 dark:text-emerald-400',
+  number: 'text-amber-600 dark:text-amber-400',
+  keyword: 'text-purple-600 dark:text-purple-400 font-medium',
+  literal: 'text-blue-600 dark:text-blue-400',
+};
+
+// KaTeX escapes its input and `trust` stays off, so its HTML output is safe to inject
+const MathView: React.FC<{ tex: string; displayMode: boolean }> = ({ tex, displayMode }) => {
+  const html = useMemo(
+    () => katex.renderToString(tex, { displayMode, throwOnError: false, trust: false }),
+    [tex, displayMode]
+  );
+  return displayMode
+    ? <div className="my-2 overflow-x-auto" dangerouslySetInnerHTML={{ __html: html }} />
+    : <span dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export const HighlightedCode: React.FC<{ code: string; language?: string | null }> = ({ code, language }) => {
+  const tokens = useMemo(() => tokenizeCode(code, language || guessLanguage(code)), [code, language]);
+  return (
+    <pre className="whitespace-pre"><code>
+      {tokens.map((token, index) =>
+        token.type === 'plain'
+          ? <React.Fragment key={index}>{token.text}</React.Fragment>
+          : <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+      )}
+    </code></pre>
+  );
+};
+
+const CodeBlock: React.FC<{ code: string; language: string; translations: any }> = ({ code, language, translations }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(err => console.error("Failed to copy code: ", err));
+  };
+
+  return (
+    <div className="my-3 rounded-lg overflow-hidden border border-slate-200 dark:border-slate-700 shadow-sm">
+      <div className="bg-slate-100 dark:bg-slate-900 px-3 py-1.5 flex justify-between items-center border-b border-slate-200 dark:border-slate-700">
+        <span className="text-xs font-mono text-slate-500 dark:text-slate-400">{language || 'code'}</span>
+        <button
+          onClick={handleCopy}
+          className="flex items-center gap-1.5 px-2 py-0.5 hover:bg-slate-200 dark:hover:bg-slate-800 rounded text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          title={translations.copy}
+        >
+          {copied ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+          <span>{copied ? translations.copied : translations.copy}</span>
+        </button>
+      </div>
+      <div className="p-3 bg-slate-50 dark:bg-slate-950 text-slate-800 dark:text-slate-200 overflow-x-auto text-xs font-mono">
+        <HighlightedCode code={code} language={language} />
+      </div>
+    </div>
+  );
+};
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'code':
+        return <code key={index} className="px-1 py-0.5 rounded bg-slate-100 dark:bg-slate-900 text-[0.85em] font-mono text-pink-600 dark:text-pink-400">{node.text}</code>;
+      case 'math':
+        return <MathView key={index} tex={node.tex} displayMode={false} />;
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm'];
+
+const renderBlocks = (blocks: BlockNode[], translations: any, tight = false): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+        return <Tag key={index} className={`${HEADING_CLASSES[block.level - 1]} font-bold mt-4 mb-2 first:mt-0`}>{renderInline(parseInline(block.text))}</Tag>;
+      }
+      case 'paragraph':
+        // List items hold their text directly so tight lists do not get paragraph spacing
+        return tight
+          ? <span key={index} className="whitespace-pre-wrap">{renderInline(parseInline(block.text))}</span>
+          : <p key={index} className="whitespace-pre-wrap my-2 first:mt-0 last:mb-0">{renderInline(parseInline(block.text))}</p>;
+      case 'code':
+        return <CodeBlock key={index} code={block.code} language={block.language} translations={translations} />;
+      case 'math':
+        return <MathView key={index} tex={block.tex} displayMode={true} />;
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="my-2 pl-3 border-l-4 border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-400">
+            {renderBlocks(block.children, translations)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className="my-0.5">{renderBlocks(item, translations, item.length === 1 || item[0]?.type === 'paragraph')}</li>
+        ));
+        return block.ordered
+          ? <ol key={index} start={block.start} className="list-decimal pl-6 my-2">{items}</ol>
+          : <ul key={index} className="list-disc pl-6 my-2">{items}</ul>;
+      }
+      case 'table':
+        return (
+          <div key={index} className="my-3 overflow-x-auto">
+            <table className="min-w-full text-xs border border-slate-200 dark:border-slate-700 rounded-lg">
+              <thead className="bg-slate-100 dark:bg-slate-900">
+                <tr>
+                  {block.header.map((cell, cellIndex) => (
+                    <th key={cellIndex} className="px-3 py-2 font-semibold border-b border-slate-200 dark:border-slate-700" style={{ textAlign: block.align[cellIndex] || 'left' }}>
+                      {renderInline(parseInline(cell))}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="even:bg-slate-50 dark:even:bg-slate-900/40">
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="px-3 py-1.5 border-b border-slate-100 dark:border-slate-800" style={{ textAlign: block.align[cellIndex] || 'left' }}>
+                        {renderInline(parseInline(cell))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'hr':
+        return <hr key={index} className="my-3 border-slate-200 dark:border-slate-700" />;
+    }
+  });
+
+/**
+ * Renders model output as Markdown. Everything is built from React elements;
+ * raw HTML in the text is displayed literally, and links are limited to
+ * http(s)/mailto targets.
+ */
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ text, translations, className }) => {
+  const blocks = useMemo(() => parseBlocks(text), [text]);
+  return <div className={className}>{renderBlocks(blocks, translations)}</div>;
+};
+
+export default MarkdownRenderer;
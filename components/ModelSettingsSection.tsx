@@ -0,0 +1,142 @@
+import React from 'react';
+import { Cpu, RotateCcw, AlertCircle } from 'lucide-react';
+import { AppMode, ModelSettings, ModelSettingsMap, ModelSettingsMode } from '../types';
+import {
+  DEFAULT_MODEL_SETTINGS,
+  MIN_CONTEXT_BUDGET,
+  MODE_REQUIREMENTS,
+  MODEL_SETTINGS_MODES,
+  ModelParameter,
+  PARAMETER_RANGES,
+  getModel,
+  getModelsForMode,
+  validateModelSettings,
+} from '../services/modelRegistry';
+
+interface ModelSettingsSectionProps {
+  translations: any; // Settings translation object
+  modelSettings: ModelSettingsMap;
+  setModelSettings: (settings: ModelSettingsMap) => void;
+}
+
+const PARAMETER_STEPS: Record<ModelParameter, number> = {
+  temperature: 0.1,
+  topP: 0.05,
+  maxOutputTokens: 256,
+  thinkingBudget: 1024,
+  contextBudget: 8192,
+};
+
+const ModelSettingsSection: React.FC<ModelSettingsSectionProps> = ({ translations, modelSettings, setModelSettings }) => {
+  const updateMode = (mode: ModelSettingsMode, changes: Partial<ModelSettings>) => {
+    setModelSettings({ ...modelSettings, [mode]: { ...modelSettings[mode], ...changes } });
+  };
+
+  const resetMode = (mode: ModelSettingsMode) => {
+    setModelSettings({ ...modelSettings, [mode]: DEFAULT_MODEL_SETTINGS[mode] });
+  };
+
+  // Empty fields mean "use the model default"
+  const handleParameterChange = (mode: ModelSettingsMode, parameter: ModelParameter, value: string) => {
+    updateMode(mode, { [parameter]: value === '' ? undefined : Number(value) });
+  };
+
+  const parameterRange = (mode: ModelSettingsMode, parameter: ModelParameter): [number, number] | undefined => {
+    const model = getModel(modelSettings[mode].model);
+    if (parameter === 'maxOutputTokens') return model ? [1, model.maxOutputTokens] : undefined;
+    if (parameter === 'thinkingBudget') return model?.thinkingBudgetRange;
+    if (parameter === 'contextBudget') return model ? [MIN_CONTEXT_BUDGET, model.contextWindow] : undefined;
+    return PARAMETER_RANGES[parameter];
+  };
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 flex items-center gap-2">
+        <Cpu size={18} className="text-emerald-500" />
+        <h3 className="font-semibold text-slate-700 dark:text-slate-200">{translations.models}</h3>
+      </div>
+      <div className="p-6 space-y-6">
+        <p className="text-sm text-slate-500 dark:text-slate-400">{translations.modelsDesc}</p>
+        {MODEL_SETTINGS_MODES.map(mode => {
+          const settings = modelSettings[mode];
+          const issues = validateModelSettings(mode, settings);
+          const models = getModelsForMode(mode);
+          const selectedIsListed = models.some(m => m.id === settings.model);
+          return (
+            <div key={mode} className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-4 space-y-4">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="font-medium text-slate-800 dark:text-slate-200">{translations.modelModes[mode]}</p>
+                  {mode === AppMode.Live && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{translations.liveModelHint}</p>
+                  )}
+                  {mode === AppMode.Chat && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{translations.chatTemperatureHint}</p>
+                  )}
+                </div>
+                <button
+                  onClick={() => resetMode(mode)}
+                  className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+                  title={translations.resetModel}
+                >
+                  <RotateCcw size={14} />
+                  <span>{translations.resetModel}</span>
+                </button>
+              </div>
+
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.model}</span>
+                <select
+                  value={settings.model}
+                  onChange={(e) => updateMode(mode, { model: e.target.value })}
+                  className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {!selectedIsListed && <option value={settings.model}>{settings.model}</option>}
+                  {models.map(model => (
+                    <option key={model.id} value={model.id}>{model.label}</option>
+                  ))}
+                </select>
+              </label>
+
+              <div className="grid grid-cols-2 gap-4">
+                {MODE_REQUIREMENTS[mode].parameters.map(parameter => {
+                  const range = parameterRange(mode, parameter);
+                  return (
+                    <label key={parameter} className="block space-y-1">
+                      <span className="text-xs font-medium text-slate-500 dark:text-slate-400">
+                        {translations.modelParameters[parameter]}
+                        {range && <span className="ml-1 font-mono text-slate-400 dark:text-slate-500">({range[0]}–{range[1]})</span>}
+                      </span>
+                      <input
+                        type="number"
+                        min={range?.[0]}
+                        max={range?.[1]}
+                        step={PARAMETER_STEPS[parameter]}
+                        value={settings[parameter] ?? ''}
+                        placeholder={translations.modelDefault}
+                        onChange={(e) => handleParameterChange(mode, parameter, e.target.value)}
+                        className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </label>
+                  );
+                })}
+              </div>
+
+              {issues.length > 0 && (
+                <div className="flex items-start gap-2 text-xs text-orange-600 dark:text-orange-400">
+                  <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+                  <div>
+                    {issues.map(issue => <p key={issue}>{translations.modelIssues[issue]}</p>)}
+                    <p className="text-slate-500 dark:text-slate-400">{translations.modelIssuesFallback}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsSection;
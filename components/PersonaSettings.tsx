@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Drama, Plus, Trash2, BrainCircuit, ChevronDown, ChevronUp } from 'lucide-react';
+import { ChatPersona } from '../types';
+import { DEFAULT_PERSONA_ID, MIN_TEMPERATURE, MAX_TEMPERATURE, createPersona } from '../services/personaStore';
+
+interface PersonaSettingsProps {
+  translations: any; // Settings translation object
+  personas: ChatPersona[];
+  setPersonas: (personas: ChatPersona[]) => void;
+}
+
+const PersonaSettings: React.FC<PersonaSettingsProps> = ({ translations, personas, setPersonas }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updatePersona = (id: string, changes: Partial<ChatPersona>) => {
+    setPersonas(personas.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  const handleAdd = () => {
+    const persona = createPersona(translations.newPersonaName);
+    setPersonas([...personas, persona]);
+    setExpandedId(persona.id);
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm(translations.confirmDeletePersona)) {
+      setPersonas(personas.filter(p => p.id !== id));
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Drama size={18} className="text-pink-500" />
+          <h3 className="font-semibold text-slate-700 dark:text-slate-200">{translations.personas}</h3>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 shadow-sm hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors text-sm font-medium text-slate-700 dark:text-slate-200"
+        >
+          <Plus size={14} />
+          {translations.addPersona}
+        </button>
+      </div>
+      <div className="p-6 space-y-3">
+        <p className="text-sm text-slate-500 dark:text-slate-400">{translations.personasDesc}</p>
+        {personas.map(persona => {
+          const isExpanded = expandedId === persona.id;
+          const isDefault = persona.id === DEFAULT_PERSONA_ID;
+          return (
+            <div key={persona.id} className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+              <div className="flex items-center gap-3 px-4 py-3">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : persona.id)}
+                  className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                >
+                  <span className="font-medium text-slate-800 dark:text-slate-200 truncate">{persona.name}</span>
+                  {isDefault && (
+                    <span className="text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400">
+                      {translations.defaultPersona}
+                    </span>
+                  )}
+                  {persona.defaultThinkingMode && <BrainCircuit size={14} className="text-purple-500" />}
+                  <span className="text-xs text-slate-400 dark:text-slate-500">T={persona.temperature.toFixed(1)}</span>
+                </button>
+                {!isDefault && (
+                  <button
+                    onClick={() => handleDelete(persona.id)}
+                    className="text-slate-400 hover:text-red-500"
+                    title={translations.deletePersona}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : persona.id)}
+                  className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                >
+                  {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+              </div>
+
+              {isExpanded && (
+                <div className="px-4 pb-4 space-y-4 border-t border-slate-100 dark:border-slate-800 pt-4">
+                  <label className="block space-y-1">
+                    <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.personaName}</span>
+                    <input
+                      value={persona.name}
+                      onChange={(e) => updatePersona(persona.id, { name: e.target.value })}
+                      className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </label>
+                  <label className="block space-y-1">
+                    <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.systemPrompt}</span>
+                    <textarea
+                      value={persona.systemPrompt}
+                      onChange={(e) => updatePersona(persona.id, { systemPrompt: e.target.value })}
+                      rows={5}
+                      className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+                    />
+                  </label>
+                  <label className="block space-y-1">
+                    <span className="text-xs font-medium text-slate-500 dark:text-slate-400 flex justify-between">
+                      <span>{translations.temperature}</span>
+                      <span className="font-mono">{persona.temperature.toFixed(1)}</span>
+                    </span>
+                    <input
+                      type="range"
+                      min={MIN_TEMPERATURE}
+                      max={MAX_TEMPERATURE}
+                      step={0.1}
+                      value={persona.temperature}
+                      onChange={(e) => updatePersona(persona.id, { temperature: Number(e.target.value) })}
+                      className="w-full accent-blue-600"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={persona.defaultThinkingMode}
+                      onChange={(e) => updatePersona(persona.id, { defaultThinkingMode: e.target.checked })}
+                      className="rounded border-slate-300 text-purple-600 focus:ring-purple-500"
+                    />
+                    {translations.defaultThinking}
+                  </label>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaSettings;
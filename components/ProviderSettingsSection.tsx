@@ -0,0 +1,171 @@
+import React from 'react';
+import { FlaskConical, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { MockErrorKind, MockProviderSettings, ProviderSettings } from '../types';
+import { DEFAULT_MOCK_SETTINGS, PROVIDER_IDS } from '../services/aiProvider';
+import { v4 as uuidv4 } from 'uuid';
+
+interface ProviderSettingsSectionProps {
+  translations: any; // Settings translation object
+  providerSettings: ProviderSettings;
+  setProviderSettings: (settings: ProviderSettings) => void;
+}
+
+const MOCK_ERROR_KINDS: MockErrorKind[] = ['rateLimit', 'quota', 'invalidKey', 'network', 'safety', 'contextTooLong', 'server'];
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const ProviderSettingsSection: React.FC<ProviderSettingsSectionProps> = ({ translations, providerSettings, setProviderSettings }) => {
+  const mock = providerSettings.mock;
+
+  const updateMock = (changes: Partial<MockProviderSettings>) => {
+    setProviderSettings({ ...providerSettings, mock: { ...mock, ...changes } });
+  };
+
+  const updateRule = (id: string, changes: { pattern?: string; response?: string }) => {
+    updateMock({ rules: mock.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+  };
+
+  const handleNumberChange = (field: 'latencyMs' | 'chunkDelayMs' | 'errorEvery', value: string) => {
+    updateMock({ [field]: Math.max(0, Math.round(Number(value) || 0)) });
+  };
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 flex items-center gap-2">
+        <FlaskConical size={18} className="text-amber-500" />
+        <h3 className="font-semibold text-slate-700 dark:text-slate-200">{translations.provider}</h3>
+      </div>
+      <div className="p-6 space-y-6">
+        <p className="text-sm text-slate-500 dark:text-slate-400">{translations.providerDesc}</p>
+
+        <div className="grid grid-cols-2 gap-3">
+          {PROVIDER_IDS.map(id => (
+            <button
+              key={id}
+              onClick={() => setProviderSettings({ ...providerSettings, provider: id })}
+              className={`text-left rounded-lg border p-3 transition-colors ${
+                providerSettings.provider === id
+                  ? 'border-blue-400 dark:border-blue-600 bg-blue-50 dark:bg-blue-900/20'
+                  : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 hover:bg-slate-50 dark:hover:bg-slate-800'
+              }`}
+            >
+              <p className="font-medium text-sm text-slate-800 dark:text-slate-200">{translations.providers[id].name}</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{translations.providers[id].desc}</p>
+            </button>
+          ))}
+        </div>
+
+        {providerSettings.provider === 'mock' && (
+          <div className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="font-medium text-slate-800 dark:text-slate-200">{translations.mockSettings}</p>
+              <button
+                onClick={() => setProviderSettings({ ...providerSettings, mock: DEFAULT_MOCK_SETTINGS })}
+                className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                <RotateCcw size={14} />
+                <span>{translations.resetModel}</span>
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.mockLatency}</span>
+                <input type="number" min={0} step={100} value={mock.latencyMs} onChange={(e) => handleNumberChange('latencyMs', e.target.value)} className={inputClass} />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.mockChunkDelay}</span>
+                <input type="number" min={0} step={10} value={mock.chunkDelayMs} onChange={(e) => handleNumberChange('chunkDelayMs', e.target.value)} className={inputClass} />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.mockInjectError}</span>
+                <select
+                  value={mock.injectError || ''}
+                  onChange={(e) => updateMock({ injectError: (e.target.value || undefined) as MockErrorKind | undefined })}
+                  className={inputClass}
+                >
+                  <option value="">{translations.mockNoErrors}</option>
+                  {MOCK_ERROR_KINDS.map(kind => (
+                    <option key={kind} value={kind}>{translations.mockErrorKinds[kind]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.mockErrorEvery}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={mock.errorEvery}
+                  disabled={!mock.injectError}
+                  onChange={(e) => handleNumberChange('errorEvery', e.target.value)}
+                  className={`${inputClass} disabled:opacity-50`}
+                />
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.mockRules}</span>
+                <button
+                  onClick={() => updateMock({ rules: [...mock.rules, { id: uuidv4(), pattern: '', response: '' }] })}
+                  className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  <Plus size={14} />
+                  <span>{translations.mockAddRule}</span>
+                </button>
+              </div>
+              <p className="text-xs text-slate-400 dark:text-slate-500">{translations.mockRulesDesc}</p>
+              {mock.rules.map(rule => (
+                <div key={rule.id} className="flex items-start gap-2">
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    placeholder={translations.mockPattern}
+                    onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                    className={`${inputClass} font-mono w-1/3 ${isValidPattern(rule.pattern) ? '' : 'border-red-400 dark:border-red-600'}`}
+                    title={isValidPattern(rule.pattern) ? undefined : translations.mockInvalidPattern}
+                  />
+                  <textarea
+                    value={rule.response}
+                    placeholder={translations.mockResponse}
+                    onChange={(e) => updateRule(rule.id, { response: e.target.value })}
+                    rows={1}
+                    className={`${inputClass} flex-1 resize-y`}
+                  />
+                  <button
+                    onClick={() => updateMock({ rules: mock.rules.filter(r => r.id !== rule.id) })}
+                    className="p-2 text-slate-400 hover:text-red-500"
+                    title={translations.mockDeleteRule}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <label className="block space-y-1">
+              <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.mockFallback}</span>
+              <textarea
+                value={mock.fallbackResponse}
+                onChange={(e) => updateMock({ fallbackResponse: e.target.value })}
+                rows={2}
+                className={`${inputClass} resize-y`}
+              />
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsSection;
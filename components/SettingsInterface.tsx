@@ -1,6 +1,9 @@
 import React from 'react';
 import { Settings, Moon, Sun, Globe, Monitor, Shield, Info, Volume2 } from 'lucide-react';
-import { Language, VoiceName, PREBUILT_VOICES } from '../types';
+import { ChatPersona, Language, ModelSettingsMap, ProviderSettings, VoiceName, PREBUILT_VOICES } from '../types';
+import PersonaSettings from './PersonaSettings';
+import ModelSettingsSection from './ModelSettingsSection';
+import ProviderSettingsSection from './ProviderSettingsSection';
 
 interface SettingsInterfaceProps {
   translations: any; // Changed to any to accept the full translation object
@@ -10,6 +13,12 @@ interface SettingsInterfaceProps {
   toggleLanguage: () => void;
   selectedVoice: VoiceName;
   setSelectedVoice: (voice: VoiceName) => void;
+  personas: ChatPersona[];
+  setPersonas: (personas: ChatPersona[]) => void;
+  modelSettings: ModelSettingsMap;
+  setModelSettings: (settings: ModelSettingsMap) => void;
+  providerSettings: ProviderSettings;
+  setProviderSettings: (settings: ProviderSettings) => void;
 }
 
 const SettingsInterface: React.FC<SettingsInterfaceProps> = ({ 
@@ -19,7 +28,13 @@ const SettingsInterface: React.FC<SettingsInterfaceProps> = ({
   language, 
   toggleLanguage,
   selectedVoice,
-  setSelectedVoice
+  setSelectedVoice,
+  personas,
+  setPersonas,
+  modelSettings,
+  setModelSettings,
+  providerSettings,
+  setProviderSettings
 }) => {
   return (
     <div className="h-full bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 p-6 overflow-y-auto transition-colors duration-200">
@@ -118,6 +133,15 @@ const SettingsInterface: React.FC<SettingsInterfaceProps> = ({
           </div>
         </div>
 
+        {/* Provider Section */}
+        <ProviderSettingsSection translations={translations} providerSettings={providerSettings} setProviderSettings={setProviderSettings} />
+
+        {/* Models Section */}
+        <ModelSettingsSection translations={translations} modelSettings={modelSettings} setModelSettings={setModelSettings} />
+
+        {/* Chat Personas Section */}
+        <PersonaSettings translations={translations} personas={personas} setPersonas={setPersonas} />
+
         {/* About Section */}
         <div className="bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
           <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 flex items-center gap-2">
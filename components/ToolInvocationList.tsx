@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Wrench, Loader2, CheckCircle2, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { ToolInvocation } from '../types';
+
+interface ToolInvocationListProps {
+  toolCalls: ToolInvocation[];
+  translations: any; // t.chat
+}
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+// One collapsible row per call; collapsed rows show the arguments inline
+const ToolInvocationRow: React.FC<{ call: ToolInvocation; translations: any }> = ({ call, translations }) => {
+  const [expanded, setExpanded] = useState(false);
+  const label = translations.toolNames?.[call.name] || call.name;
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 text-xs">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-slate-600 dark:text-slate-300"
+      >
+        {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <Wrench size={12} className="text-slate-400" />
+        <span className="font-medium">{label}</span>
+        {!expanded && (
+          <code className="truncate text-slate-400 dark:text-slate-500 font-mono">{JSON.stringify(call.args)}</code>
+        )}
+        <span className="ml-auto flex-shrink-0">
+          {call.status === 'running' && <Loader2 size={12} className="animate-spin text-blue-500" />}
+          {call.status === 'done' && <CheckCircle2 size={12} className="text-green-500" />}
+          {call.status === 'error' && <AlertCircle size={12} className="text-red-500" />}
+        </span>
+      </button>
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2">
+          <div>
+            <p className="text-[10px] uppercase tracking-wide text-slate-400 mb-1">{translations.toolArguments}</p>
+            <pre className="whitespace-pre-wrap break-all font-mono text-slate-700 dark:text-slate-300">{formatJson(call.args)}</pre>
+          </div>
+          <div>
+            <p className="text-[10px] uppercase tracking-wide text-slate-400 mb-1">
+              {call.status === 'error' ? translations.toolError : translations.toolResult}
+            </p>
+            {call.status === 'running' ? (
+              <p className="italic text-slate-500">{translations.toolRunning}</p>
+            ) : call.status === 'error' ? (
+              <p className="text-red-600 dark:text-red-400">{call.error}</p>
+            ) : (
+              <pre className="whitespace-pre-wrap break-all font-mono text-slate-700 dark:text-slate-300 max-h-60 overflow-y-auto">{formatJson(call.result)}</pre>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ToolInvocationList: React.FC<ToolInvocationListProps> = ({ toolCalls, translations }) => (
+  <div className="mb-2 flex flex-col gap-1.5">
+    {toolCalls.map(call => (
+      <ToolInvocationRow key={call.id} call={call} translations={translations} />
+    ))}
+  </div>
+);
+
+export default ToolInvocationList;
@@ -2,16 +2,27 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { FileAudio, Upload, Loader2, CheckCircle2, Mic, Square, Activity, Copy, Check, AlertCircle, KeyRound, DollarSign } from 'lucide-react'; // Added KeyRound, DollarSign icons
 import { transcribeAudioFile } from '../services/gemini';
-import { blobToBase64, float32ToInt16, arrayBufferToBase64 } from '../services/audio';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { blobToBase64 } from '../services/audio';
+import { CAPTURE_MIME_TYPE, MicCapture, openMicCapture } from '../services/micCapture';
+import { LiveServerMessage, Modality } from '@google/genai';
+import { AppMode, ModelSettings, SearchTarget } from '../types';
+import { confirmWithinBudget, recordUsage } from '../services/usageStore';
+import { loadTranscripts, saveTranscript } from '../services/transcriptStore';
+import { RequestStatus, classifyRequestError } from '../services/requestPolicy';
+import { getProvider, LiveSession } from '../services/aiProvider';
 
 interface TranscriberProps {
   translations: any; // Changed to any to accept the full translation object
+  modelSettings: ModelSettings; // File transcription settings
+  liveModel: string; // Streaming transcription runs on the Live mode model
+  searchTarget?: SearchTarget | null; // Global search hit to open
+  onSearchTargetHandled?: () => void;
 }
 
-const Transcriber: React.FC<TranscriberProps> = ({ translations }) => {
+const Transcriber: React.FC<TranscriberProps> = ({ translations, modelSettings, liveModel, searchTarget, onSearchTargetHandled }) => {
   const [transcription, setTranscription] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [requestStatus, setRequestStatus] = useState<RequestStatus | null>(null); // Offline queue or retry of a file transcription
   const [error, setError] = useState<string | null>(null);
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [copied, setCopied] = useState(false); // State for copy button feedback
@@ -22,14 +33,13 @@ const Transcriber: React.FC<TranscriberProps> = ({ translations }) => {
   const [hasApiKey, setHasApiKey] = useState(false);
 
   // Audio Refs
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
-  const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
   const sessionRef = useRef<any>(null);
+  const wasStreamingRef = useRef(false);
+  const resultRef = useRef<HTMLDivElement>(null);
 
   const checkApiKeyStatus = async () => {
-    if (typeof window.aistudio !== 'undefined' && await window.aistudio.hasSelectedApiKey()) {
+    if (!getProvider().requiresApiKey || (typeof window.aistudio !== 'undefined' && await window.aistudio.hasSelectedApiKey())) {
       setHasApiKey(true);
     } else {
       setHasApiKey(false);
@@ -49,46 +59,42 @@ const Transcriber: React.FC<TranscriberProps> = ({ translations }) => {
   const startStreaming = async () => {
     setError(null);
     setTranscription(''); // Clear previous transcription for new stream
+    if (!(await confirmWithinBudget(translations.usage.budgetExceeded))) return;
     
-    // NEW: API Key check before connecting
-    if (typeof window.aistudio === 'undefined') {
-      setError((translations.apiKey || {}).keyNotFound); // Defensive access
-      return;
-    }
-    if (!(await window.aistudio.hasSelectedApiKey())) {
-      setHasApiKey(false);
-      setError((translations.apiKey || {}).selectKey); // Defensive access
-      return;
+    // NEW: API Key check before connecting (the mock provider needs none)
+    const provider = getProvider();
+    if (provider.requiresApiKey) {
+      if (typeof window.aistudio === 'undefined') {
+        setError((translations.apiKey || {}).keyNotFound); // Defensive access
+        return;
+      }
+      if (!(await window.aistudio.hasSelectedApiKey())) {
+        setHasApiKey(false);
+        setError((translations.apiKey || {}).selectKey); // Defensive access
+        return;
+      }
     }
     setHasApiKey(true); // Assume API key is present and valid
 
     try {
-      if (!process.env.API_KEY) {
-        throw new Error((translations.apiKey || {}).keyNotFound); // Defensive access
-      }
-
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        } 
+      let sessionPromise: Promise<LiveSession>;
+      const capture = await openMicCapture({
+        onChunk: (data) => {
+          sessionPromise.then(session => {
+            session.sendRealtimeInput({
+              media: {
+                mimeType: CAPTURE_MIME_TYPE,
+                data
+              }
+            });
+          });
+        },
+        onLevel: setStreamVolume, // Volume meter
       });
-      streamRef.current = stream;
-
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      if (inputCtx.state === 'suspended') await inputCtx.resume();
-      inputAudioContextRef.current = inputCtx;
+      captureRef.current = capture;
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // Defensive check for ai and ai.live
-      if (!ai || !ai.live) {
-         throw new Error((translations.apiKey || {}).apiInitFailed); // Defensive access
-      }
-      
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+      sessionPromise = provider.connectLive({
+        model: liveModel,
         config: {
           // The `responseModalities` array must contain `Modality.AUDIO` enum member.
           responseModalities: [Modality.AUDIO], // Required by API even if we only want transcription
@@ -100,38 +106,10 @@ const Transcriber: React.FC<TranscriberProps> = ({ translations }) => {
             console.log("Streaming started");
             setIsStreaming(true);
 
-            // Audio Processing
-            const source = inputCtx.createMediaStreamSource(stream);
-            inputSourceRef.current = source;
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-            processorRef.current = processor;
-
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              
-              // Volume meter logic
-              let sum = 0;
-              for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-              setStreamVolume(Math.sqrt(sum / inputData.length));
-
-              // Convert and Send
-              const int16Data = float32ToInt16(inputData);
-              const base64Data = arrayBufferToBase64(int16Data.buffer);
-
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({
-                  media: {
-                    mimeType: 'audio/pcm;rate=16000',
-                    data: base64Data
-                  }
-                });
-              });
-            };
-
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
+            capture.start();
           },
           onmessage: (msg: LiveServerMessage) => {
+            if (msg.usageMetadata) recordUsage(AppMode.Transcribe, liveModel, msg.usageMetadata);
             // Check for input transcription
             const text = msg.serverContent?.inputTranscription?.text;
             if (text) {
@@ -191,23 +169,8 @@ const Transcriber: React.FC<TranscriberProps> = ({ translations }) => {
     setStreamVolume(0);
 
     // Cleanup Audio
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current.onaudioprocess = null;
-      processorRef.current = null;
-    }
-    if (inputSourceRef.current) {
-      inputSourceRef.current.disconnect();
-      inputSourceRef.current = null;
-    }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    if (inputAudioContextRef.current) {
-      inputAudioContextRef.current.close();
-      inputAudioContextRef.current = null;
-    }
+    captureRef.current?.stop();
+    captureRef.current = null;
 
     // Close Session
     sessionRef.current?.then((s: any) => {
@@ -216,32 +179,48 @@ const Transcriber: React.FC<TranscriberProps> = ({ translations }) => {
     sessionRef.current = null;
   };
 
+  // A full localStorage must not take the transcription on screen down with it
+  const storeTranscript = (...args: Parameters<typeof saveTranscript>) => {
+    try {
+      saveTranscript(...args);
+    } catch (err) {
+      console.error("Failed to save transcript:", err);
+      setError(translations.transcribe.saveFailed);
+    }
+  };
+
   const handleTranscribeFile = async () => {
     if (!audioFile) return;
 
-    // NEW: API Key check for file transcription
-    if (typeof window.aistudio === 'undefined') {
-      setError((translations.apiKey || {}).keyNotFound); // Defensive access
-      return;
-    }
-    if (!(await window.aistudio.hasSelectedApiKey())) {
-      setHasApiKey(false);
-      setError((translations.apiKey || {}).selectKey); // Defensive access
-      return;
+    // NEW: API Key check for file transcription (the mock provider needs none)
+    if (getProvider().requiresApiKey) {
+      if (typeof window.aistudio === 'undefined') {
+        setError((translations.apiKey || {}).keyNotFound); // Defensive access
+        return;
+      }
+      if (!(await window.aistudio.hasSelectedApiKey())) {
+        setHasApiKey(false);
+        setError((translations.apiKey || {}).selectKey); // Defensive access
+        return;
+      }
     }
     setHasApiKey(true); // Assume API key is present and valid
+    if (!(await confirmWithinBudget(translations.usage.budgetExceeded))) return;
 
     setIsProcessing(true);
     setError(null);
 
     try {
       const base64 = await blobToBase64(audioFile);
-      const result = await transcribeAudioFile(base64, audioFile.type);
+      const result = await transcribeAudioFile(base64, audioFile.type, modelSettings, { onStatus: setRequestStatus });
       setTranscription(result);
+      storeTranscript(audioFile.name, result, 'file');
     } catch (err: any) {
       console.error("File transcription error:", err);
       console.trace();
-      let userMessage = translations.transcribe.error; // Use translations.transcribe.error
+      // Request errors are worded the same as in chat
+      const kind = classifyRequestError(err);
+      let userMessage = kind === 'unknown' ? translations.transcribe.error : translations.chat.requestErrors[kind];
       if (err.message.includes("API Key")) { // Check for API Key error from service
         userMessage = (translations.apiKey || {}).keyNotFound; // Defensive access
         setHasApiKey(false);
@@ -252,6 +231,7 @@ const Transcriber: React.FC<TranscriberProps> = ({ translations }) => {
       setError(userMessage);
     } finally {
       setIsProcessing(false);
+      setRequestStatus(null);
     }
   };
 
@@ -281,6 +261,25 @@ const Transcriber: React.FC<TranscriberProps> = ({ translations }) => {
     }
   };
 
+  // Keep each finished live transcription so it can be searched later
+  useEffect(() => {
+    if (wasStreamingRef.current && !isStreaming && transcription.trim()) {
+      storeTranscript(new Date().toLocaleString(), transcription, 'live');
+    }
+    wasStreamingRef.current = isStreaming;
+  }, [isStreaming]);
+
+  // Show a saved transcript picked in global search, unless a live transcription is running
+  useEffect(() => {
+    if (searchTarget?.source !== 'transcript') return;
+    onSearchTargetHandled?.();
+    const transcript = loadTranscripts().find(t => t.id === searchTarget.transcriptId);
+    if (!transcript || isStreaming) return;
+    setTranscription(transcript.text);
+    setError(null);
+    resultRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [searchTarget]);
+
   // Cleanup on unmount
   useEffect(() => {
     checkApiKeyStatus(); // Initial check on mount
@@ -409,7 +408,13 @@ const Transcriber: React.FC<TranscriberProps> = ({ translations }) => {
                className="bg-indigo-600 dark:bg-indigo-500 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 dark:hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
              >
                {isProcessing ? <Loader2 className="animate-spin" size={16} /> : null}
-               {isProcessing ? translations.transcribe.transcribingBtn : translations.transcribe.transcribeBtn} {/* Use translations.transcribe.transcribingBtn/transcribeBtn */}
+               {!isProcessing
+                 ? translations.transcribe.transcribeBtn
+                 : requestStatus?.state === 'offline'
+                   ? translations.transcribe.offlineQueued
+                   : requestStatus?.state === 'retrying'
+                     ? translations.transcribe.retrying.replace('{attempt}', String(requestStatus.attempt)).replace('{max}', String(requestStatus.maxAttempts))
+                     : translations.transcribe.transcribingBtn}
              </button>
           </div>
         )}
@@ -423,7 +428,7 @@ const Transcriber: React.FC<TranscriberProps> = ({ translations }) => {
         )}
 
         {/* Result Area */}
-        <div className="space-y-2">
+        <div ref={resultRef} className="space-y-2">
             <div className="flex items-center justify-between">
                 <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 flex items-center gap-2">
                   <CheckCircle2 size={16} className={transcription ? "text-green-500" : "text-slate-300"} />
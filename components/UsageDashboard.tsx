@@ -0,0 +1,349 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart3, Wallet, Trash2, Loader2, RotateCcw } from 'lucide-react';
+import { ModelPrice, ModelSettingsMode, UsageBudget, UsageRecord } from '../types';
+import {
+  clearUsage,
+  estimateCost,
+  getDefaultPrices,
+  listUsage,
+  loadBudget,
+  loadPrices,
+  saveBudget,
+  savePrices,
+  startOfDay,
+  startOfMonth,
+} from '../services/usageStore';
+import { listConversations } from '../services/conversationStore';
+import { MODELS, MODEL_SETTINGS_MODES } from '../services/modelRegistry';
+
+interface UsageDashboardProps {
+  translations: any; // Usage translation object
+}
+
+const HISTORY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface UsageTotals {
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
+  cost: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ promptTokens: 0, responseTokens: 0, thinkingTokens: 0, cost: 0 });
+
+const addToTotals = (totals: UsageTotals, record: UsageRecord, cost: number) => {
+  totals.promptTokens += record.promptTokens;
+  totals.responseTokens += record.responseTokens;
+  totals.thinkingTokens += record.thinkingTokens;
+  totals.cost += cost;
+};
+
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ translations }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [conversationTitles, setConversationTitles] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [prices, setPrices] = useState<Record<string, ModelPrice>>(loadPrices);
+  const [budget, setBudget] = useState<UsageBudget>(loadBudget);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const now = Date.now();
+        const since = Math.min(startOfDay(now) - (HISTORY_DAYS - 1) * DAY_MS, startOfMonth(now));
+        const [usage, conversations] = await Promise.all([listUsage(since), listConversations()]);
+        setRecords(usage);
+        setConversationTitles(Object.fromEntries(conversations.map(c => [c.id, c.title])));
+      } catch (error) {
+        console.error("Failed to load usage:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  useEffect(() => {
+    savePrices(prices);
+  }, [prices]);
+
+  useEffect(() => {
+    saveBudget(budget);
+  }, [budget]);
+
+  const summary = useMemo(() => {
+    const now = Date.now();
+    const dayStart = startOfDay(now);
+    const monthStart = startOfMonth(now);
+    const historyStart = dayStart - (HISTORY_DAYS - 1) * DAY_MS;
+
+    const today = emptyTotals();
+    const month = emptyTotals();
+    const byDay = new Map<number, UsageTotals>();
+    const byMode = new Map<ModelSettingsMode, UsageTotals>();
+    const byConversation = new Map<string, UsageTotals>();
+
+    for (const record of records) {
+      const cost = estimateCost(record, prices);
+      if (record.timestamp >= dayStart) addToTotals(today, record, cost);
+      if (record.timestamp >= monthStart) addToTotals(month, record, cost);
+      if (record.timestamp < historyStart) continue;
+
+      const day = startOfDay(record.timestamp);
+      if (!byDay.has(day)) byDay.set(day, emptyTotals());
+      addToTotals(byDay.get(day)!, record, cost);
+
+      if (!byMode.has(record.mode)) byMode.set(record.mode, emptyTotals());
+      addToTotals(byMode.get(record.mode)!, record, cost);
+
+      if (record.conversationId) {
+        if (!byConversation.has(record.conversationId)) byConversation.set(record.conversationId, emptyTotals());
+        addToTotals(byConversation.get(record.conversationId)!, record, cost);
+      }
+    }
+
+    return {
+      today,
+      month,
+      days: [...byDay.entries()].sort((a, b) => b[0] - a[0]),
+      modes: byMode,
+      conversations: [...byConversation.entries()].sort((a, b) => b[1].cost - a[1].cost).slice(0, 10),
+    };
+  }, [records, prices]);
+
+  const updatePrice = (modelId: string, field: keyof ModelPrice, value: string) => {
+    setPrices(prev => ({ ...prev, [modelId]: { ...prev[modelId], [field]: Math.max(0, Number(value) || 0) } }));
+  };
+
+  const updateBudget = (field: keyof UsageBudget, value: string) => {
+    setBudget(prev => ({ ...prev, [field]: value === '' ? undefined : Math.max(0, Number(value) || 0) }));
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(translations.confirmClear)) return;
+    try {
+      await clearUsage();
+      setRecords([]);
+    } catch (error) {
+      console.error("Failed to clear usage:", error);
+    }
+  };
+
+  const renderBudgetCard = (label: string, spent: UsageTotals, limit?: number) => {
+    const ratio = limit ? Math.min(spent.cost / limit, 1) : 0;
+    const barColor = ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-orange-500' : 'bg-emerald-500';
+    return (
+      <div className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-4 space-y-2">
+        <p className="text-xs font-medium text-slate-500 dark:text-slate-400">{label}</p>
+        <p className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+          {formatCost(spent.cost)}
+          {limit !== undefined && <span className="text-sm font-normal text-slate-400 dark:text-slate-500"> / {formatCost(limit)}</span>}
+        </p>
+        {limit !== undefined && (
+          <div className="h-1.5 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+            <div className={`h-full ${barColor} transition-all`} style={{ width: `${ratio * 100}%` }} />
+          </div>
+        )}
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {formatTokens(spent.promptTokens + spent.responseTokens + spent.thinkingTokens)} {translations.tokens}
+        </p>
+      </div>
+    );
+  };
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const sectionClass = "bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden";
+  const thClass = "px-3 py-2 text-left font-semibold text-slate-500 dark:text-slate-400";
+  const tdClass = "px-3 py-2 text-slate-700 dark:text-slate-300";
+
+  return (
+    <div className="h-full bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 p-6 overflow-y-auto transition-colors duration-200">
+      <div className="max-w-4xl mx-auto space-y-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-emerald-100 dark:bg-emerald-900/40 text-emerald-600 dark:text-emerald-400 flex items-center justify-center">
+              <BarChart3 size={20} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100">{translations.title}</h2>
+              <p className="text-sm text-slate-500 dark:text-slate-400">{translations.subtitle}</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-40 transition-colors"
+          >
+            <Trash2 size={14} />
+            {translations.clear}
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12 text-slate-400">
+            <Loader2 className="animate-spin" size={24} />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {renderBudgetCard(translations.today, summary.today, budget.dailyLimit)}
+              {renderBudgetCard(translations.thisMonth, summary.month, budget.monthlyLimit)}
+            </div>
+
+            {/* Per-mode totals */}
+            <div className={sectionClass}>
+              <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+                <h3 className="font-semibold text-slate-700 dark:text-slate-200">{translations.byMode}</h3>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className={thClass}>{translations.mode}</th>
+                    <th className={thClass}>{translations.promptTokens}</th>
+                    <th className={thClass}>{translations.responseTokens}</th>
+                    <th className={thClass}>{translations.thinkingTokens}</th>
+                    <th className={thClass}>{translations.cost}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {MODEL_SETTINGS_MODES.map(mode => {
+                    const totals = summary.modes.get(mode) || emptyTotals();
+                    return (
+                      <tr key={mode} className="border-t border-slate-200 dark:border-slate-800">
+                        <td className={tdClass}>{translations.modes[mode]}</td>
+                        <td className={tdClass}>{formatTokens(totals.promptTokens)}</td>
+                        <td className={tdClass}>{formatTokens(totals.responseTokens)}</td>
+                        <td className={tdClass}>{formatTokens(totals.thinkingTokens)}</td>
+                        <td className={tdClass}>{formatCost(totals.cost)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Daily totals */}
+            <div className={sectionClass}>
+              <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+                <h3 className="font-semibold text-slate-700 dark:text-slate-200">{translations.daily}</h3>
+              </div>
+              {summary.days.length === 0 ? (
+                <p className="px-6 py-6 text-sm text-center text-slate-400 dark:text-slate-500">{translations.noUsage}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th className={thClass}>{translations.date}</th>
+                      <th className={thClass}>{translations.promptTokens}</th>
+                      <th className={thClass}>{translations.responseTokens}</th>
+                      <th className={thClass}>{translations.thinkingTokens}</th>
+                      <th className={thClass}>{translations.cost}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.days.map(([day, totals]) => (
+                      <tr key={day} className="border-t border-slate-200 dark:border-slate-800">
+                        <td className={tdClass}>{new Date(day).toLocaleDateString()}</td>
+                        <td className={tdClass}>{formatTokens(totals.promptTokens)}</td>
+                        <td className={tdClass}>{formatTokens(totals.responseTokens)}</td>
+                        <td className={tdClass}>{formatTokens(totals.thinkingTokens)}</td>
+                        <td className={tdClass}>{formatCost(totals.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Most expensive conversations */}
+            {summary.conversations.length > 0 && (
+              <div className={sectionClass}>
+                <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+                  <h3 className="font-semibold text-slate-700 dark:text-slate-200">{translations.byConversation}</h3>
+                </div>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {summary.conversations.map(([id, totals]) => (
+                      <tr key={id} className="border-t first:border-t-0 border-slate-200 dark:border-slate-800">
+                        <td className={`${tdClass} truncate max-w-xs`}>{conversationTitles[id] || translations.deletedConversation}</td>
+                        <td className={tdClass}>{formatTokens(totals.promptTokens + totals.responseTokens + totals.thinkingTokens)} {translations.tokens}</td>
+                        <td className={tdClass}>{formatCost(totals.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Budgets */}
+        <div className={sectionClass}>
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 flex items-center gap-2">
+            <Wallet size={18} className="text-amber-500" />
+            <h3 className="font-semibold text-slate-700 dark:text-slate-200">{translations.budgets}</h3>
+          </div>
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-slate-500 dark:text-slate-400">{translations.budgetsDesc}</p>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.dailyLimit}</span>
+                <input type="number" min={0} step={0.5} value={budget.dailyLimit ?? ''} placeholder={translations.noLimit}
+                  onChange={(e) => updateBudget('dailyLimit', e.target.value)} className={inputClass} />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{translations.monthlyLimit}</span>
+                <input type="number" min={0} step={1} value={budget.monthlyLimit ?? ''} placeholder={translations.noLimit}
+                  onChange={(e) => updateBudget('monthlyLimit', e.target.value)} className={inputClass} />
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {/* Price table */}
+        <div className={sectionClass}>
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 flex items-center justify-between">
+            <h3 className="font-semibold text-slate-700 dark:text-slate-200">{translations.prices}</h3>
+            <button
+              onClick={() => setPrices(getDefaultPrices())}
+              className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+            >
+              <RotateCcw size={14} />
+              {translations.resetPrices}
+            </button>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className={thClass}>{translations.model}</th>
+                <th className={thClass}>{translations.inputPrice}</th>
+                <th className={thClass}>{translations.outputPrice}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {MODELS.map(model => (
+                <tr key={model.id} className="border-t border-slate-200 dark:border-slate-800">
+                  <td className={tdClass}>{model.label}</td>
+                  <td className={tdClass}>
+                    <input type="number" min={0} step={0.05} value={prices[model.id]?.inputPerMillion ?? 0}
+                      onChange={(e) => updatePrice(model.id, 'inputPerMillion', e.target.value)} className={inputClass} />
+                  </td>
+                  <td className={tdClass}>
+                    <input type="number" min={0} step={0.05} value={prices[model.id]?.outputPerMillion ?? 0}
+                      onChange={(e) => updatePrice(model.id, 'outputPerMillion', e.target.value)} className={inputClass} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="px-6 py-3 text-xs text-slate-500 dark:text-slate-400">{translations.pricesDesc}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
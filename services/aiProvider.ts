@@ -0,0 +1,71 @@
+import {
+  CreateChatParameters,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  LiveConnectParameters,
+  SendMessageParameters,
+  Session,
+} from '@google/genai';
+import { MockProviderSettings, ProviderId, ProviderSettings } from '../types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+// Backends behind chat, transcription and live audio. The shapes follow the
+// @google/genai SDK so the Gemini provider is a thin pass-through and the
+// rest of the app keeps working with SDK request and response types.
+
+export interface ChatSession {
+  sendMessageStream(params: SendMessageParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+}
+
+export type LiveSession = Pick<Session, 'sendRealtimeInput' | 'sendClientContent' | 'sendToolResponse' | 'close'>;
+
+export interface AIProvider {
+  id: ProviderId;
+  requiresApiKey: boolean; // Whether the API key selection prompts apply
+  createChat(params: CreateChatParameters): ChatSession;
+  generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+  connectLive(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+const PROVIDER_SETTINGS_KEY = 'aiProviderSettings';
+
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'mock'];
+
+export const DEFAULT_MOCK_SETTINGS: MockProviderSettings = {
+  rules: [
+    { id: 'greeting', pattern: '^(hi|hello|hey|สวัสดี)', response: 'Hello! This is the offline mock provider. No request left your browser.' },
+  ],
+  fallbackResponse: 'Mock response to: "{prompt}"',
+  latencyMs: 400,
+  chunkDelayMs: 40,
+  errorEvery: 0,
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  mock: DEFAULT_MOCK_SETTINGS,
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  let stored: Partial<ProviderSettings> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(PROVIDER_SETTINGS_KEY) || '{}') || {};
+  } catch (error) {
+    console.error("Failed to read provider settings:", error);
+  }
+  return {
+    provider: stored.provider && PROVIDER_IDS.includes(stored.provider) ? stored.provider : DEFAULT_PROVIDER_SETTINGS.provider,
+    mock: { ...DEFAULT_MOCK_SETTINGS, ...stored.mock },
+  };
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** The provider selected in Settings, read on every call so a switch applies to the next request. */
+export const getProvider = (): AIProvider => {
+  const settings = loadProviderSettings();
+  return settings.provider === 'mock' ? mockProvider(settings.mock) : geminiProvider;
+};
@@ -38,4 +38,36 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
     reader.onerror = reject;
     reader.readAsDataURL(blob);
   });
-};
\ No newline at end of file
+};
+// Worklet processors ship as source strings, loaded through a blob URL so they need no separate build entry
+export const addWorkletModule = async (context: BaseAudioContext, source: string) => {
+  const moduleUrl = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+};
+
+/** Wraps 16-bit mono PCM chunks in a WAV container. */
+export const encodeWav = (chunks: Int16Array[], sampleRate: number): Blob => {
+  const dataBytes = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataBytes, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true); // Block align
+  header.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, dataBytes, true);
+  return new Blob([header.buffer, ...chunks.map(chunk => chunk.buffer as ArrayBuffer)], { type: 'audio/wav' });
+};
@@ -0,0 +1,199 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { evaluateExpression } from '../utils/mathExpression';
+import { SUPPORTED_UNITS, convertUnits } from '../utils/unitConversion';
+import { loadTranscripts } from './transcriptStore';
+import { loadSnippets } from './snippetStore';
+import { loadNotes } from './noteStore';
+
+export interface ChatTool {
+  declaration: FunctionDeclaration & { name: string };
+  execute: (args: Record<string, any>) => unknown | Promise<unknown>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (value: unknown, field: string): Date => {
+  if (value === undefined || value === null || value === '' || value === 'now' || value === 'today') return new Date();
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) throw new Error(`"${field}" is not a valid date: ${value}`);
+  return date;
+};
+
+const describeDate = (date: Date) => ({
+  iso: date.toISOString(),
+  date: date.toISOString().slice(0, 10),
+  weekday: date.toLocaleDateString('en-US', { weekday: 'long' }),
+  // Thai Buddhist Era year, which users often ask for
+  buddhistYear: date.getFullYear() + 543,
+});
+
+const addToDate = (date: Date, amount: number, unit: string): Date => {
+  const result = new Date(date);
+  switch (unit) {
+    case 'minutes': result.setMinutes(result.getMinutes() + amount); break;
+    case 'hours': result.setHours(result.getHours() + amount); break;
+    case 'days': result.setDate(result.getDate() + amount); break;
+    case 'weeks': result.setDate(result.getDate() + amount * 7); break;
+    case 'months': result.setMonth(result.getMonth() + amount); break;
+    case 'years': result.setFullYear(result.getFullYear() + amount); break;
+    default: throw new Error(`Unknown unit "${unit}"`);
+  }
+  return result;
+};
+
+// Scores by how many query terms occur in the text; returns a short excerpt around the first hit
+const matchText = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase();
+  const hits = terms.filter(term => lower.includes(term));
+  if (hits.length === 0) return null;
+  const first = lower.indexOf(hits[0]);
+  const start = Math.max(0, first - 80);
+  const excerpt = (start > 0 ? '…' : '') + text.slice(start, first + 220).trim() + (first + 220 < text.length ? '…' : '');
+  return { score: hits.length / terms.length, excerpt };
+};
+
+const calculator: ChatTool = {
+  declaration: {
+    name: 'calculator',
+    description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^ !, parentheses, pi, e and the functions sqrt, cbrt, abs, sin, cos, tan, asin, acos, atan, ln, log (base 10), log2, exp, round(x, digits), floor, ceil, min, max, pow. Trigonometry uses radians.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        expression: { type: Type.STRING, description: 'The expression to evaluate, e.g. "(1.07 ^ 10 - 1) * 2500"' },
+      },
+      required: ['expression'],
+    },
+  },
+  execute: ({ expression }) => {
+    const value = evaluateExpression(String(expression));
+    if (!Number.isFinite(value)) throw new Error('The result is not a finite number');
+    return { expression, value };
+  },
+};
+
+const unitConverter: ChatTool = {
+  declaration: {
+    name: 'convert_units',
+    description: `Converts a value between units of length, mass, volume, area, time, speed, data size or temperature. Supported units: ${SUPPORTED_UNITS.join(', ')}.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        value: { type: Type.NUMBER, description: 'The amount to convert' },
+        from: { type: Type.STRING, description: 'Source unit, e.g. "km", "lb", "f"' },
+        to: { type: Type.STRING, description: 'Target unit' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+  },
+  execute: ({ value, from, to }) => {
+    const converted = convertUnits(Number(value), String(from), String(to));
+    return { value: Number(value), from, to, result: converted.value, category: converted.category };
+  },
+};
+
+const dateMath: ChatTool = {
+  declaration: {
+    name: 'date_math',
+    description: 'Date arithmetic in the user\'s local time zone. "info" describes a date (defaults to now), "add" adds an amount of a unit to a date (negative to subtract), "diff" returns the time between two dates.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        operation: { type: Type.STRING, enum: ['info', 'add', 'diff'] },
+        date: { type: Type.STRING, description: 'ISO 8601 date or date-time, or "now". Defaults to now.' },
+        amount: { type: Type.NUMBER, description: 'For "add": how many units to add' },
+        unit: { type: Type.STRING, enum: ['minutes', 'hours', 'days', 'weeks', 'months', 'years'], description: 'For "add"' },
+        endDate: { type: Type.STRING, description: 'For "diff": the second date' },
+      },
+      required: ['operation'],
+    },
+  },
+  execute: ({ operation, date, amount, unit, endDate }) => {
+    const start = parseDate(date, 'date');
+    switch (operation) {
+      case 'info':
+        return describeDate(start);
+      case 'add':
+        if (typeof amount !== 'number' || !unit) throw new Error('"add" needs amount and unit');
+        return describeDate(addToDate(start, amount, unit));
+      case 'diff': {
+        const end = parseDate(endDate, 'endDate');
+        const ms = end.getTime() - start.getTime();
+        const months = (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth());
+        return {
+          days: Math.round(ms / DAY_MS * 100) / 100,
+          weeks: Math.round(ms / (7 * DAY_MS) * 100) / 100,
+          hours: Math.round(ms / 3600000 * 100) / 100,
+          calendarMonths: months,
+        };
+      }
+      default:
+        throw new Error(`Unknown operation "${operation}"`);
+    }
+  },
+};
+
+const savedContentSearch: ChatTool = {
+  declaration: {
+    name: 'search_saved_content',
+    description: 'Searches the user\'s saved code snippets (from Codegen), saved audio transcripts and notes taken during voice calls by keyword and returns the best matches with excerpts.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'Keywords to look for' },
+        source: { type: Type.STRING, enum: ['all', 'snippets', 'transcripts', 'notes'], description: 'Defaults to all' },
+        limit: { type: Type.INTEGER, description: 'Maximum number of results, default 5' },
+      },
+      required: ['query'],
+    },
+  },
+  execute: ({ query, source = 'all', limit = 5 }) => {
+    const terms = String(query).toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) throw new Error('Empty query');
+
+    const results: { type: string; id: string; title: string; date: string; score: number; excerpt: string }[] = [];
+    if (source === 'all' || source === 'snippets') {
+      for (const snippet of loadSnippets()) {
+        const match = matchText(`${snippet.description}\n${snippet.code}`, terms);
+        if (match) results.push({ type: 'snippet', id: snippet.id, title: snippet.description, date: new Date(snippet.timestamp).toISOString(), ...match });
+      }
+    }
+    if (source === 'all' || source === 'transcripts') {
+      for (const transcript of loadTranscripts()) {
+        const match = matchText(`${transcript.title}\n${transcript.text}`, terms);
+        if (match) results.push({ type: 'transcript', id: transcript.id, title: transcript.title, date: new Date(transcript.timestamp).toISOString(), ...match });
+      }
+    }
+
+    if (source === 'all' || source === 'notes') {
+      for (const note of loadNotes()) {
+        const match = matchText(note.text, terms);
+        if (match) results.push({ type: 'note', id: note.id, title: note.text.slice(0, 60), date: new Date(note.timestamp).toISOString(), ...match });
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return { query, total: results.length, results: results.slice(0, Math.max(1, Math.min(Number(limit) || 5, 20))) };
+  },
+};
+
+export const CHAT_TOOLS: ChatTool[] = [calculator, unitConverter, dateMath, savedContentSearch];
+
+export const CHAT_TOOL_NAMES = CHAT_TOOLS.map(tool => tool.declaration.name);
+
+export const getEnabledTools = (enabled?: string[]): ChatTool[] =>
+  enabled ? CHAT_TOOLS.filter(tool => enabled.includes(tool.declaration.name)) : CHAT_TOOLS;
+
+/** Runs a tool call locally. Failures are returned to the model as an error instead of throwing. */
+export const executeTool = async (
+  tools: ChatTool[],
+  name: string,
+  args: Record<string, any>
+): Promise<{ result?: unknown; error?: string }> => {
+  const tool = tools.find(t => t.declaration.name === name);
+  if (!tool) return { error: `Tool "${name}" is not available` };
+  try {
+    return { result: await tool.execute(args || {}) };
+  } catch (error: any) {
+    return { error: error?.message || String(error) };
+  }
+};
@@ -0,0 +1,88 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage, Conversation, ConversationSummary } from '../types';
+import { CONVERSATIONS_STORE, withStore } from './database';
+
+// Pinned threads first, then most recently updated
+export const sortConversations = (conversations: Conversation[]): Conversation[] =>
+  [...conversations].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return b.updatedAt - a.updatedAt;
+  });
+
+export const listConversations = async (): Promise<Conversation[]> => {
+  const conversations = await withStore<Conversation[]>(CONVERSATIONS_STORE, 'readonly', store => store.getAll());
+  return sortConversations(conversations);
+};
+
+export const getConversation = (id: string): Promise<Conversation | undefined> =>
+  withStore<Conversation | undefined>(CONVERSATIONS_STORE, 'readonly', store => store.get(id));
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  await withStore(CONVERSATIONS_STORE, 'readwrite', store => store.put(conversation));
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await withStore(CONVERSATIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const createConversation = async (
+  title: string,
+  messages: ChatMessage[] = [],
+  selectedBranches: Record<string, string> = {},
+  personaId?: string
+): Promise<Conversation> => {
+  const now = Date.now();
+  const conversation: Conversation = {
+    id: uuidv4(),
+    title,
+    pinned: false,
+    createdAt: now,
+    updatedAt: now,
+    messages,
+    selectedBranches,
+    personaId,
+  };
+  await saveConversation(conversation);
+  return conversation;
+};
+
+export const renameConversation = async (id: string, title: string): Promise<Conversation | undefined> => {
+  const conversation = await getConversation(id);
+  if (!conversation) return undefined;
+  const updated = { ...conversation, title, updatedAt: Date.now() };
+  await saveConversation(updated);
+  return updated;
+};
+
+export const setConversationPinned = async (id: string, pinned: boolean): Promise<Conversation | undefined> => {
+  const conversation = await getConversation(id);
+  if (!conversation) return undefined;
+  // Pinning does not bump updatedAt so the thread keeps its place among unpinned ones when unpinned again
+  const updated = { ...conversation, pinned };
+  await saveConversation(updated);
+  return updated;
+};
+
+export const setConversationPersona = async (id: string, personaId: string): Promise<Conversation | undefined> => {
+  const conversation = await getConversation(id);
+  if (!conversation) return undefined;
+  const updated = { ...conversation, personaId };
+  await saveConversation(updated);
+  return updated;
+};
+
+export const setConversationTools = async (id: string, enabledTools: string[]): Promise<Conversation | undefined> => {
+  const conversation = await getConversation(id);
+  if (!conversation) return undefined;
+  const updated = { ...conversation, enabledTools };
+  await saveConversation(updated);
+  return updated;
+};
+
+export const setConversationSummaries = async (id: string, summaries: ConversationSummary[]): Promise<Conversation | undefined> => {
+  const conversation = await getConversation(id);
+  if (!conversation) return undefined;
+  const updated = { ...conversation, summaries };
+  await saveConversation(updated);
+  return updated;
+};
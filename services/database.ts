@@ -0,0 +1,82 @@
+const DB_NAME = 'gen-aethe-vivens-ai';
+const DB_VERSION = 4;
+
+export const CONVERSATIONS_STORE = 'conversations';
+export const USAGE_STORE = 'usage';
+export const DOCUMENTS_STORE = 'documents';
+export const DOCUMENT_CHUNKS_STORE = 'documentChunks';
+export const RECORDINGS_STORE = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        const store = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+        const store = db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+        store.createIndex('conversationId', 'conversationId');
+      }
+      if (!db.objectStoreNames.contains(DOCUMENT_CHUNKS_STORE)) {
+        const store = db.createObjectStore(DOCUMENT_CHUNKS_STORE, { keyPath: 'id' });
+        store.createIndex('conversationId', 'conversationId');
+        store.createIndex('documentId', 'documentId');
+      }
+      if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        const store = db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null; // Allow a later retry
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Wraps a single-store transaction in a promise that settles when the transaction completes
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// One transaction over several stores, for writes that must land together or not at all
+export const withStores = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (stores: Record<string, IDBObjectStore>) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    run(Object.fromEntries(storeNames.map(name => [name, tx.objectStore(name)])));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,119 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatCitation, DocumentChunk, LibraryDocument } from '../types';
+import { DOCUMENTS_STORE, DOCUMENT_CHUNKS_STORE, withStore, withStores } from './database';
+import { classifyFile } from '../utils/attachments';
+import { chunkPages, extractPages } from '../utils/documentParser';
+import { rankBm25 } from '../utils/bm25';
+
+export const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+const RETRIEVED_CHUNKS = 6;
+
+export type DocumentRejection = 'unsupportedType' | 'fileTooLarge' | 'noText';
+
+export const validateDocument = (file: File): DocumentRejection | null => {
+  const kind = classifyFile(file);
+  if (kind !== 'pdf' && kind !== 'text') return 'unsupportedType';
+  if (file.size > MAX_DOCUMENT_BYTES) return 'fileTooLarge';
+  return null;
+};
+
+export const listDocuments = (conversationId: string): Promise<LibraryDocument[]> =>
+  withStore<LibraryDocument[]>(DOCUMENTS_STORE, 'readonly', store => store.index('conversationId').getAll(conversationId))
+    .then(documents => documents.sort((a, b) => a.addedAt - b.addedAt));
+
+export const getLibraryDocument = (id: string): Promise<LibraryDocument | undefined> =>
+  withStore<LibraryDocument | undefined>(DOCUMENTS_STORE, 'readonly', store => store.get(id));
+
+/**
+ * Parses, chunks and stores a file that passed `validateDocument` in the
+ * thread's library. Returns null when the file has no extractable text, as
+ * with scanned PDFs that lack a text layer.
+ */
+export const addDocument = async (conversationId: string, file: File): Promise<LibraryDocument | null> => {
+  const kind = classifyFile(file) === 'pdf' ? 'pdf' : 'text';
+  const pages = await extractPages(file, kind);
+  const chunks = chunkPages(pages);
+  if (chunks.length === 0) return null;
+
+  const document: LibraryDocument = {
+    id: uuidv4(),
+    conversationId,
+    name: file.name,
+    mimeType: file.type || (kind === 'pdf' ? 'application/pdf' : 'text/plain'),
+    size: file.size,
+    pageCount: pages.length,
+    chunkCount: chunks.length,
+    addedAt: Date.now(),
+    blob: file,
+  };
+
+  // A single transaction, so a failed write cannot leave chunks behind that the library does not list
+  await withStores([DOCUMENTS_STORE, DOCUMENT_CHUNKS_STORE], 'readwrite', stores => {
+    stores[DOCUMENTS_STORE].put(document);
+    for (const chunk of chunks) {
+      stores[DOCUMENT_CHUNKS_STORE].put({ id: uuidv4(), documentId: document.id, conversationId, page: chunk.page, text: chunk.text } as DocumentChunk);
+    }
+  });
+  return document;
+};
+
+const deleteByIndex = (storeName: string, indexName: string, key: string) =>
+  withStore(storeName, 'readwrite', store => {
+    const request = store.index(indexName).openCursor(IDBKeyRange.only(key));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+  });
+
+export const deleteDocument = async (id: string): Promise<void> => {
+  await deleteByIndex(DOCUMENT_CHUNKS_STORE, 'documentId', id);
+  await withStore(DOCUMENTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const deleteConversationDocuments = async (conversationId: string): Promise<void> => {
+  await deleteByIndex(DOCUMENT_CHUNKS_STORE, 'conversationId', conversationId);
+  await deleteByIndex(DOCUMENTS_STORE, 'conversationId', conversationId);
+};
+
+/**
+ * Finds the library chunks most relevant to `query` and formats them as a
+ * numbered context block. The numbers are the [n] markers the model is asked
+ * to cite, so each returned citation can be matched against the reply.
+ */
+export const retrieveDocumentContext = async (
+  conversationId: string,
+  query: string,
+  documents: LibraryDocument[]
+): Promise<{ context: string; citations: ChatCitation[] } | null> => {
+  if (documents.length === 0 || !query.trim()) return null;
+
+  const chunks = await withStore<DocumentChunk[]>(DOCUMENT_CHUNKS_STORE, 'readonly', store => store.index('conversationId').getAll(conversationId));
+  const ranked = rankBm25(query, chunks, chunk => chunk.text, RETRIEVED_CHUNKS);
+  if (ranked.length === 0) return null;
+
+  const names = new Map(documents.map(doc => [doc.id, doc.name]));
+  const citations: ChatCitation[] = ranked.map(({ item }, i) => ({
+    index: i + 1,
+    documentId: item.documentId,
+    documentName: names.get(item.documentId) || '',
+    page: item.page,
+    excerpt: item.text,
+  }));
+
+  const sources = citations
+    .map(citation => `[${citation.index}] ${citation.documentName}${citation.page ? `, page ${citation.page}` : ''}\n${citation.excerpt}`)
+    .join('\n\n');
+  const context = 'Excerpts from documents the user added to this conversation are listed below. '
+    + 'Use them when they are relevant to the message and cite every excerpt you rely on with its bracketed number, '
+    + 'for example [2]. Ignore them otherwise.\n\n'
+    + sources;
+
+  return { context, citations };
+};
+
+/** Keeps the citations whose [n] marker appears in the reply. */
+export const citedInReply = (text: string, citations: ChatCitation[]): ChatCitation[] =>
+  citations.filter(citation => new RegExp(`\\[(?:\\d+,\\s*)*${citation.index}(?:,\\s*\\d+)*\\]`).test(text));
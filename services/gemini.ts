@@ -1,41 +1,282 @@
 
+import { Content, FunctionCallingConfigMode, GenerateContentConfig, GenerateContentResponse, Part, PartListUnion } from "@google/genai";
+import { v4 as uuidv4 } from 'uuid';
+import { AppMode, ChatMessage, ChatPersona, ModelSettings, Sender, ToolInvocation } from "../types";
+import { decodeBase64Text } from "../utils/attachments";
+import { DEFAULT_PERSONA } from "./personaStore";
+import { DEFAULT_MODEL_SETTINGS, DEFAULT_THINKING_BUDGET, toGenerationConfig } from "./modelRegistry";
+import { recordUsage } from "./usageStore";
+import { ChatTool, executeTool } from "./chatTools";
+import { RetryOptions, getBlockReason, safetyBlockError, withRetry } from "./requestPolicy";
+import { ChatSession, getProvider } from "./aiProvider";
 
-import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
+// Tool-call rounds allowed per reply; the last round must answer in text
+const MAX_TOOL_ROUNDS = 5;
 
-export const createChatSession = (useThinking: boolean = false) => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key not found. Please select an API Key to enable this feature.");
-  }
+interface ChatConfigOptions {
+  useThinking?: boolean;
+  thinkingBudget?: number;
+  tools?: ChatTool[]; // Local tools offered to the model
+  contextSummary?: string; // Summary of older turns that are no longer sent verbatim
+}
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-3-pro-preview';
-  
-  const config: any = {
-    systemInstruction: 'You are a helpful, intelligent assistant. You are capable of speaking Thai and English fluently. Answer politely and accurately.',
+// Per-request config does not inherit from the chat-level config, so both
+// session creation and streaming sends build it from here.
+const buildChatConfig = (
+  persona: ChatPersona,
+  settings: ModelSettings,
+  { useThinking = false, thinkingBudget = DEFAULT_THINKING_BUDGET, tools = [], contextSummary }: ChatConfigOptions = {}
+) => {
+  const config: GenerateContentConfig = {
+    ...toGenerationConfig(settings),
+    systemInstruction: contextSummary
+      ? `${persona.systemPrompt}\n\nSummary of the earlier part of this conversation, whose messages are no longer included:\n${contextSummary}`
+      : persona.systemPrompt,
+    temperature: persona.temperature,
   };
 
   if (useThinking) {
-    config.thinkingConfig = { thinkingBudget: 32768 };
+    config.thinkingConfig = { thinkingBudget };
+  }
+
+  if (tools.length > 0) {
+    config.tools = [{ functionDeclarations: tools.map(tool => tool.declaration) }];
+  }
+
+  return config;
+};
+
+const toFunctionResponse = (call: ToolInvocation): Part => ({
+  functionResponse: {
+    id: call.id,
+    name: call.name,
+    response: call.status === 'error' ? { error: call.error } : { output: call.result },
+  },
+});
+
+/**
+ * Converts stored chat messages back into Gemini history. Local-only entries
+ * (the welcome message, pending placeholders and error notices) are skipped.
+ */
+export const toGeminiHistory = (messages: ChatMessage[]): Content[] => {
+  const history: Content[] = [];
+
+  for (const msg of messages) {
+    if (msg.id === 'init' || msg.isThinking || msg.isError) continue;
+
+    const parts: Part[] = [];
+    if (msg.text) parts.push({ text: msg.text });
+    for (const attachment of msg.attachments || []) {
+      if (attachment.kind === 'text') {
+        // Text files are inlined so any source or data format works, not only MIME types Gemini accepts
+        parts.push({ text: `--- File: ${attachment.name} ---\n${decodeBase64Text(attachment.data)}\n--- End of ${attachment.name} ---` });
+      } else {
+        parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
+      }
+    }
+    if (parts.length === 0 && !msg.toolCalls?.length) continue;
+
+    // Tool rounds are replayed as the call/response turns the model produced them from
+    const settledCalls = (msg.toolCalls || []).filter(call => call.status !== 'running');
+    if (msg.role === Sender.Bot && settledCalls.length > 0) {
+      history.push({
+        role: 'model',
+        parts: settledCalls.map(call => ({
+          functionCall: { id: call.id, name: call.name, args: call.args },
+          thoughtSignature: call.thoughtSignature,
+        })),
+      });
+      history.push({ role: 'user', parts: settledCalls.map(toFunctionResponse) });
+    }
+    if (parts.length === 0) continue;
+
+    history.push({ role: msg.role === Sender.User ? 'user' : 'model', parts });
   }
 
-  return ai.chats.create({
-    model,
-    config,
+  return history;
+};
+
+/**
+ * Creates a chat session on the selected provider, seeded with the given
+ * history. Thinking is not fixed here: each send passes its own thinking
+ * settings, so the same session (and its context) is kept when the user
+ * switches modes mid-conversation.
+ */
+export const createChatSession = (
+  history: ChatMessage[] = [],
+  persona: ChatPersona = DEFAULT_PERSONA,
+  settings: ModelSettings = DEFAULT_MODEL_SETTINGS[AppMode.Chat],
+  contextSummary?: string
+) => {
+  return getProvider().createChat({
+    model: settings.model,
+    config: buildChatConfig(persona, settings, { contextSummary }),
+    history: toGeminiHistory(history),
   });
 };
 
-export const transcribeAudioFile = async (audioBase64: string, mimeType: string): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key not found. Please select an API Key to enable this feature.");
+interface RequestOptions {
+  signal?: AbortSignal;
+  conversationId?: string; // Usage is recorded against this thread
+  onStatus?: RetryOptions['onStatus']; // Offline waits and retries before a request gets through
+}
+
+export interface ChatStreamOptions extends ChatConfigOptions, RequestOptions {
+  persona?: ChatPersona;
+  settings?: ModelSettings;
+}
+
+export interface ChatStreamUpdate {
+  text: string;
+  toolCalls: ToolInvocation[];
+}
+
+/**
+ * Sends a message on an existing chat and yields the accumulated response text
+ * and tool invocations after every streamed chunk. Function calls are executed
+ * locally and their results sent back on the same chat until the model answers
+ * in text. Aborting the signal stops the stream; whatever was received so far
+ * has already been yielded to the caller. Token usage is recorded against
+ * `conversationId` for every round.
+ *
+ * Each round is retried through `withRetry` until it starts streaming; a
+ * failure after text has arrived is thrown as is. Blocked prompts and
+ * responses throw a safety error.
+ */
+export async function* sendChatMessageStream(
+  chat: ChatSession,
+  message: PartListUnion,
+  {
+    persona = DEFAULT_PERSONA,
+    settings = DEFAULT_MODEL_SETTINGS[AppMode.Chat],
+    signal,
+    conversationId,
+    onStatus,
+    ...configOptions
+  }: ChatStreamOptions = {}
+): AsyncGenerator<ChatStreamUpdate> {
+  let text = '';
+  let toolCalls: ToolInvocation[] = [];
+  let nextMessage = message;
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const config = buildChatConfig(persona, settings, configOptions);
+    if (round === MAX_TOOL_ROUNDS && config.tools) {
+      config.toolConfig = { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } };
+    }
+    const roundMessage = nextMessage;
+    const stream = await withRetry(
+      () => chat.sendMessageStream({ message: roundMessage, config: { ...config, abortSignal: signal } }),
+      { signal, onStatus }
+    );
+
+    const pending: ToolInvocation[] = [];
+    // Every chunk carries the running totals, so the last one seen is what the round cost
+    let usage: GenerateContentResponse['usageMetadata'];
+    try {
+      for await (const chunk of stream) {
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        if (signal?.aborted) break;
+        const blockReason = getBlockReason(chunk);
+        if (blockReason) throw safetyBlockError(blockReason);
+
+        let chunkText = '';
+        for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+          if (part.functionCall) {
+            pending.push({
+              id: part.functionCall.id || uuidv4(),
+              name: part.functionCall.name || '',
+              args: part.functionCall.args || {},
+              status: 'running',
+              thoughtSignature: part.thoughtSignature,
+            });
+          } else if (part.text && !part.thought) {
+            chunkText += part.text;
+          }
+        }
+        if (chunkText) {
+          text += chunkText;
+          yield { text, toolCalls };
+        }
+      }
+    } finally {
+      recordUsage(AppMode.Chat, settings.model, usage, conversationId);
+    }
+
+    if (signal?.aborted || pending.length === 0) return;
+
+    toolCalls = [...toolCalls, ...pending];
+    yield { text, toolCalls };
+
+    const responses: Part[] = [];
+    for (const call of pending) {
+      const outcome = await executeTool(configOptions.tools || [], call.name, call.args);
+      const settled: ToolInvocation = outcome.error !== undefined
+        ? { ...call, status: 'error', error: outcome.error }
+        : { ...call, status: 'done', result: outcome.result };
+      toolCalls = toolCalls.map(c => c === call ? settled : c);
+      responses.push(toFunctionResponse(settled));
+      yield { text, toolCalls };
+    }
+    nextMessage = responses;
+  }
+}
+
+// Plain-text transcript of the turns being folded into a summary
+const describeForSummary = (msg: ChatMessage): string => {
+  const lines = [`${msg.role === Sender.User ? 'User' : 'Assistant'}: ${msg.text}`];
+  if (msg.attachments?.length) lines.push(`(Attached: ${msg.attachments.map(a => a.name).join(', ')})`);
+  for (const call of msg.toolCalls || []) {
+    lines.push(`(Tool ${call.name} ${JSON.stringify(call.args)} -> ${JSON.stringify(call.result ?? call.error)})`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Condenses older chat turns, together with the summary they may already
+ * have replaced, into a single summary the model receives instead of them.
+ */
+export const summarizeConversation = async (
+  messages: ChatMessage[],
+  previousSummary: string | undefined,
+  settings: ModelSettings = DEFAULT_MODEL_SETTINGS[AppMode.Chat],
+  { signal, conversationId, onStatus }: RequestOptions = {}
+): Promise<string> => {
+  const provider = getProvider();
+  const transcript = messages.map(describeForSummary).join('\n\n');
+  const response: GenerateContentResponse = await withRetry(() => provider.generateContent({
+    model: settings.model,
+    config: {
+      abortSignal: signal,
+      systemInstruction: 'You maintain the running summary of a chat so it can continue after older messages are dropped. '
+        + 'Keep every fact, decision, name, number, code identifier, user preference and open question that later turns may rely on. '
+        + 'Drop pleasantries and repetition. Write in the language the conversation uses, as concise Markdown bullet points.',
+    },
+    contents: (previousSummary ? `Existing summary:\n${previousSummary}\n\n` : '')
+      + `Messages to add to the summary:\n\n${transcript}\n\nWrite the updated summary.`,
+  }), { signal, onStatus });
+
+  recordUsage(AppMode.Chat, settings.model, response.usageMetadata, conversationId);
+  if (!response.text) throw new Error("Empty summary");
+  return response.text.trim();
+};
+
+export const transcribeAudioFile = async (
+  audioBase64: string,
+  mimeType: string,
+  settings: ModelSettings = DEFAULT_MODEL_SETTINGS[AppMode.Transcribe],
+  { signal, onStatus }: RequestOptions = {}
+): Promise<string> => {
+  const provider = getProvider();
+  const config: GenerateContentConfig = { ...toGenerationConfig(settings), abortSignal: signal };
+  if (settings.thinkingBudget !== undefined) {
+    config.thinkingConfig = { thinkingBudget: settings.thinkingBudget };
   }
-  
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  // Use Flash for fast transcription
-  const model = 'gemini-2.5-flash'; 
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model,
+    const response: GenerateContentResponse = await withRetry(() => provider.generateContent({
+      model: settings.model,
+      config,
       contents: {
         parts: [
           {
@@ -49,11 +290,14 @@ export const transcribeAudioFile = async (audioBase64: string, mimeType: string)
           }
         ]
       }
-    });
+    }), { signal, onStatus });
 
+    recordUsage(AppMode.Transcribe, settings.model, response.usageMetadata);
+    const blockReason = getBlockReason(response);
+    if (blockReason) throw safetyBlockError(blockReason);
     return response.text || "No transcription generated.";
   } catch (error) {
     console.error("Transcription error:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,18 @@
+import { GoogleGenAI } from '@google/genai';
+import type { AIProvider } from './aiProvider';
+
+// A client per call, so a key picked in the API key dialog applies right away
+const createClient = () => {
+  if (!process.env.API_KEY) {
+    throw new Error("API Key not found. Please select an API Key to enable this feature.");
+  }
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  requiresApiKey: true,
+  createChat: (params) => createClient().chats.create(params),
+  generateContent: (params) => createClient().models.generateContent(params),
+  connectLive: (params) => createClient().live.connect(params),
+};
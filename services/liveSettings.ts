@@ -0,0 +1,96 @@
+import { EndSensitivity, RealtimeInputConfig, StartSensitivity } from '@google/genai';
+import { LiveInputSettings, LiveMicMode, LiveRecordingMode, LiveVideoSettings, VoiceActivitySensitivity } from '../types';
+
+const LIVE_INPUT_SETTINGS_KEY = 'liveInputSettings';
+const RECORDING_MODE_KEY = 'liveRecordingMode';
+const VIDEO_SETTINGS_KEY = 'liveVideoSettings';
+
+export const LIVE_MIC_MODES: LiveMicMode[] = ['openMic', 'pushToTalk'];
+export const RECORDING_MODES: LiveRecordingMode[] = ['off', 'wav', 'wavAndWebm'];
+export const VOICE_ACTIVITY_SENSITIVITIES: VoiceActivitySensitivity[] = ['low', 'medium', 'high'];
+export const VIDEO_FRAME_RATES = [0.5, 1, 2, 5];
+export const VIDEO_WIDTHS = [320, 640, 1024, 1280];
+
+export const DEFAULT_LIVE_INPUT_SETTINGS: LiveInputSettings = {
+  micMode: 'openMic',
+  sensitivity: 'medium',
+};
+
+export const DEFAULT_VIDEO_SETTINGS: LiveVideoSettings = {
+  frameRate: 1, // The Live API samples video at about one frame per second
+  maxWidth: 640,
+};
+
+export const loadLiveInputSettings = (): LiveInputSettings => {
+  let stored: Partial<LiveInputSettings> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(LIVE_INPUT_SETTINGS_KEY) || '{}') || {};
+  } catch (error) {
+    console.error("Failed to read live input settings:", error);
+  }
+  return {
+    micMode: stored.micMode && LIVE_MIC_MODES.includes(stored.micMode) ? stored.micMode : DEFAULT_LIVE_INPUT_SETTINGS.micMode,
+    sensitivity: stored.sensitivity && VOICE_ACTIVITY_SENSITIVITIES.includes(stored.sensitivity)
+      ? stored.sensitivity
+      : DEFAULT_LIVE_INPUT_SETTINGS.sensitivity,
+  };
+};
+
+export const saveLiveInputSettings = (settings: LiveInputSettings) => {
+  localStorage.setItem(LIVE_INPUT_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadRecordingMode = (): LiveRecordingMode => {
+  const stored = localStorage.getItem(RECORDING_MODE_KEY) as LiveRecordingMode | null;
+  return stored && RECORDING_MODES.includes(stored) ? stored : 'off';
+};
+
+export const saveRecordingMode = (mode: LiveRecordingMode) => {
+  localStorage.setItem(RECORDING_MODE_KEY, mode);
+};
+
+export const loadVideoSettings = (): LiveVideoSettings => {
+  let stored: Partial<LiveVideoSettings> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(VIDEO_SETTINGS_KEY) || '{}') || {};
+  } catch (error) {
+    console.error("Failed to read live video settings:", error);
+  }
+  return {
+    frameRate: VIDEO_FRAME_RATES.includes(stored.frameRate) ? stored.frameRate : DEFAULT_VIDEO_SETTINGS.frameRate,
+    maxWidth: VIDEO_WIDTHS.includes(stored.maxWidth) ? stored.maxWidth : DEFAULT_VIDEO_SETTINGS.maxWidth,
+  };
+};
+
+export const saveVideoSettings = (settings: LiveVideoSettings) => {
+  localStorage.setItem(VIDEO_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Server-side activity detection for the selected mode. Push-to-talk turns it
+ * off, so the client marks turns with activityStart / activityEnd; medium
+ * keeps the API defaults.
+ */
+export const toRealtimeInputConfig = ({ micMode, sensitivity }: LiveInputSettings): RealtimeInputConfig => {
+  if (micMode === 'pushToTalk') return { automaticActivityDetection: { disabled: true } };
+  switch (sensitivity) {
+    case 'low': // Ignores background noise and waits out longer pauses
+      return {
+        automaticActivityDetection: {
+          startOfSpeechSensitivity: StartSensitivity.START_SENSITIVITY_LOW,
+          endOfSpeechSensitivity: EndSensitivity.END_SENSITIVITY_LOW,
+          silenceDurationMs: 1200,
+        },
+      };
+    case 'high': // Picks up quiet speech and answers after short pauses
+      return {
+        automaticActivityDetection: {
+          startOfSpeechSensitivity: StartSensitivity.START_SENSITIVITY_HIGH,
+          endOfSpeechSensitivity: EndSensitivity.END_SENSITIVITY_HIGH,
+          silenceDurationMs: 400,
+        },
+      };
+    default:
+      return { automaticActivityDetection: { disabled: false } };
+  }
+};
@@ -0,0 +1,116 @@
+import { Type } from '@google/genai';
+import { v4 as uuidv4 } from 'uuid';
+import { ChatTool, getEnabledTools } from './chatTools';
+import { saveNote } from './noteStore';
+
+// Tools declared on Live voice calls: the chat tools that suit a spoken
+// exchange, plus timers and notes. Timers belong to one call and are
+// cleared when it ends.
+
+const MAX_TIMER_SECONDS = 24 * 60 * 60;
+
+export interface LiveTimer {
+  id: string;
+  label: string;
+  endsAt: number;
+}
+
+export interface LiveToolkit {
+  tools: ChatTool[];
+  dispose: () => void; // Cancels running timers
+}
+
+const describeTimer = (timer: LiveTimer) => ({
+  id: timer.id,
+  label: timer.label,
+  endsAt: new Date(timer.endsAt).toISOString(),
+  secondsLeft: Math.max(0, Math.round((timer.endsAt - Date.now()) / 1000)),
+});
+
+export const createLiveToolkit = ({ onTimerFinished }: { onTimerFinished: (timer: LiveTimer) => void }): LiveToolkit => {
+  const timers = new Map<string, { timer: LiveTimer; handle: number }>();
+
+  const setTimer: ChatTool = {
+    declaration: {
+      name: 'set_timer',
+      description: 'Starts a countdown timer. When it finishes the user is alerted and you are told, so you can announce it.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          seconds: { type: Type.NUMBER, description: 'Duration in seconds, e.g. 300 for five minutes' },
+          label: { type: Type.STRING, description: 'What the timer is for, e.g. "pasta"' },
+        },
+        required: ['seconds'],
+      },
+    },
+    execute: ({ seconds, label }) => {
+      const duration = Number(seconds);
+      if (!(duration >= 1) || duration > MAX_TIMER_SECONDS) throw new Error(`"seconds" must be between 1 and ${MAX_TIMER_SECONDS}`);
+      const timer: LiveTimer = { id: uuidv4(), label: String(label || `${duration}s timer`), endsAt: Date.now() + duration * 1000 };
+      const handle = window.setTimeout(() => {
+        timers.delete(timer.id);
+        onTimerFinished(timer);
+      }, duration * 1000);
+      timers.set(timer.id, { timer, handle });
+      return describeTimer(timer);
+    },
+  };
+
+  const listTimers: ChatTool = {
+    declaration: {
+      name: 'list_timers',
+      description: 'Lists the running timers with the time left on each.',
+    },
+    execute: () => ({ timers: [...timers.values()].map(({ timer }) => describeTimer(timer)) }),
+  };
+
+  const cancelTimer: ChatTool = {
+    declaration: {
+      name: 'cancel_timer',
+      description: 'Cancels a running timer by its id or label.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          timer: { type: Type.STRING, description: 'The id returned by set_timer, or the label' },
+        },
+        required: ['timer'],
+      },
+    },
+    execute: ({ timer: target }) => {
+      const wanted = String(target).toLowerCase();
+      const entry = [...timers.values()].find(({ timer }) => timer.id === target || timer.label.toLowerCase() === wanted);
+      if (!entry) throw new Error(`No running timer matches "${target}"`);
+      clearTimeout(entry.handle);
+      timers.delete(entry.timer.id);
+      return { cancelled: describeTimer(entry.timer) };
+    },
+  };
+
+  const takeNote: ChatTool = {
+    declaration: {
+      name: 'take_note',
+      description: 'Saves a note for the user, e.g. something they asked you to remember. Notes can be found later with search_saved_content.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: 'The note, written so it makes sense on its own' },
+        },
+        required: ['text'],
+      },
+    },
+    execute: ({ text }) => {
+      const content = String(text || '').trim();
+      if (!content) throw new Error('The note is empty');
+      const note = saveNote(content);
+      return { id: note.id, saved: true };
+    },
+  };
+
+  return {
+    tools: [setTimer, listTimers, cancelTimer, takeNote, ...getEnabledTools(['convert_units', 'search_saved_content'])],
+    dispose: () => {
+      timers.forEach(({ handle }) => clearTimeout(handle));
+      timers.clear();
+    },
+  };
+};
@@ -0,0 +1,178 @@
+// Microphone capture for Live sessions and streaming transcription. An
+// AudioWorklet downsamples to 16 kHz, converts to 16-bit PCM, batches the
+// frames and base64-encodes them on the audio thread, so React re-renders
+// on the main thread can no longer cause dropouts.
+
+import { addWorkletModule } from './audio';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const CAPTURE_MIME_TYPE = `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`;
+
+const DEFAULT_CHUNK_MS = 100;
+const DEFAULT_LEVEL_INTERVAL_MS = 50;
+const PROCESSOR_NAME = 'pcm-capture';
+
+// Runs in the AudioWorkletGlobalScope, which has no btoa, hence the hand-rolled encoder
+const WORKLET_SOURCE = `
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const toBase64 = (bytes) => {
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += BASE64[n >> 18] + BASE64[(n >> 12) & 63] + BASE64[(n >> 6) & 63] + BASE64[n & 63];
+  }
+  if (i < bytes.length) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8);
+    out += BASE64[n >> 18] + BASE64[(n >> 12) & 63] + (i + 1 < bytes.length ? BASE64[(n >> 6) & 63] : '=') + '=';
+  }
+  return out;
+};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSamples, levelIntervalMs } = options.processorOptions;
+    this.ratio = sampleRate / targetRate; // Input samples per output sample
+    this.next = this.ratio;
+    this.consumed = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.chunk = new Int16Array(chunkSamples);
+    this.filled = 0;
+    this.levelSamples = Math.round(sampleRate * levelIntervalMs / 1000);
+    this.levelSum = 0;
+    this.levelCount = 0;
+  }
+
+  push(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.chunk[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.filled === this.chunk.length) {
+      this.port.postMessage({ type: 'chunk', data: toBase64(new Uint8Array(this.chunk.buffer)) });
+      this.filled = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      const x = channel[i];
+      this.levelSum += x * x;
+      if (++this.levelCount === this.levelSamples) {
+        this.port.postMessage({ type: 'level', rms: Math.sqrt(this.levelSum / this.levelCount) });
+        this.levelSum = 0;
+        this.levelCount = 0;
+      }
+
+      // Averages the input samples that fall into each output sample, a cheap low-pass before decimation
+      this.sum += x;
+      this.count++;
+      this.consumed++;
+      if (this.consumed >= this.next) {
+        const value = this.sum / this.count;
+        while (this.consumed >= this.next) {
+          this.push(value);
+          this.next += this.ratio;
+        }
+        this.next -= this.consumed;
+        this.consumed = 0;
+        this.sum = 0;
+        this.count = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export interface MicCaptureOptions {
+  onChunk: (base64Pcm: string) => void; // 16 kHz mono 16-bit PCM, ready for sendRealtimeInput
+  onLevel?: (rms: number) => void; // Input level, 0 - 1
+  chunkMs?: number; // Audio per chunk
+  levelIntervalMs?: number; // How often onLevel fires
+}
+
+export interface MicCapture {
+  stream: MediaStream;
+  start: () => void; // Begins delivering chunks and levels
+  stop: () => void; // Releases the microphone and closes the audio graph
+}
+
+/**
+ * Opens the microphone and loads the capture worklet. Nothing is delivered
+ * until `start()`, so callers can wait for their session to open first.
+ */
+export const openMicCapture = async ({
+  onChunk,
+  onLevel,
+  chunkMs = DEFAULT_CHUNK_MS,
+  levelIntervalMs = DEFAULT_LEVEL_INTERVAL_MS,
+}: MicCaptureOptions): Promise<MicCapture> => {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+      }
+    });
+  } catch (err) {
+    console.error("Microphone access error:", err);
+    throw new Error("Could not access microphone.");
+  }
+
+  // The context runs at the device rate; the worklet does the resampling
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    if (context.state === 'suspended') await context.resume();
+    await addWorkletModule(context, WORKLET_SOURCE);
+  } catch (err) {
+    stream.getTracks().forEach(track => track.stop());
+    context.close();
+    throw err;
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0, // A sink: processed without being wired to the speakers
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetRate: CAPTURE_SAMPLE_RATE,
+      chunkSamples: Math.round(CAPTURE_SAMPLE_RATE * chunkMs / 1000),
+      levelIntervalMs,
+    },
+  });
+  node.port.onmessage = (event: MessageEvent<{ type: 'chunk'; data: string } | { type: 'level'; rms: number }>) => {
+    if (event.data.type === 'chunk') onChunk(event.data.data);
+    else onLevel?.(Math.min(event.data.rms, 1));
+  };
+
+  let started = false;
+  let stopped = false;
+  return {
+    stream,
+    start: () => {
+      if (started || stopped) return;
+      started = true;
+      source.connect(node);
+    },
+    stop: () => {
+      if (stopped) return;
+      stopped = true;
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      context.close();
+    },
+  };
+};
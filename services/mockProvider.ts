@@ -0,0 +1,302 @@
+import {
+  ApiError,
+  BlockedReason,
+  Content,
+  FinishReason,
+  GenerateContentResponse,
+  LiveConnectParameters,
+  LiveServerMessage,
+  Part,
+  StartSensitivity,
+} from '@google/genai';
+import { MockErrorKind, MockProviderSettings } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer, float32ToInt16 } from './audio';
+import { sleep } from './requestPolicy';
+import type { AIProvider, ChatSession, LiveSession } from './aiProvider';
+
+// In-browser stand-in for Gemini: replies come from the rules configured in
+// Settings, and failures are injected on a fixed schedule, so a demo or a
+// manual test plays out the same way every time without a key or network.
+
+const MAX_ECHOED_PROMPT = 200;
+const MOCK_TRANSCRIPT = 'This is a mock transcription. The audio was not sent anywhere.';
+
+// Live audio: input arrives as 16 kHz PCM, replies are played back at 24 kHz
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+const SPEECH_RMS = 0.02; // Input louder than this counts as speech
+const END_OF_TURN_MS = 700; // Silence after speech that ends the user's turn
+const MIN_SPEECH_MS = 300;
+const WORD_TONE_MS = 180;
+const WORD_GAP_MS = 60;
+
+// Errors shaped like the ones the SDK throws, so classification and retries behave as with the real API
+const MOCK_API_ERRORS: Record<Exclude<MockErrorKind, 'network' | 'safety'>, { status: number; message: string }> = {
+  rateLimit: {
+    status: 429,
+    message: '{"error":{"code":429,"status":"RESOURCE_EXHAUSTED","message":"Mock rate limit.","details":[{"retryDelay":"1s"}]}}',
+  },
+  quota: {
+    status: 429,
+    message: '{"error":{"code":429,"status":"RESOURCE_EXHAUSTED","message":"Mock quota exceeded for GenerateRequestsPerDay. Check your plan and billing details."}}',
+  },
+  invalidKey: {
+    status: 400,
+    message: '{"error":{"code":400,"status":"INVALID_ARGUMENT","message":"API key not valid. Please pass a valid API key."}}',
+  },
+  contextTooLong: {
+    status: 400,
+    message: '{"error":{"code":400,"status":"INVALID_ARGUMENT","message":"The input token count exceeds the maximum number of tokens allowed."}}',
+  },
+  server: {
+    status: 503,
+    message: '{"error":{"code":503,"status":"UNAVAILABLE","message":"The mock model is overloaded."}}',
+  },
+};
+
+// Counts requests across sessions since the page loaded
+let requestCount = 0;
+
+const nextInjectedError = (settings: MockProviderSettings): MockErrorKind | null => {
+  requestCount++;
+  if (!settings.injectError || settings.errorEvery <= 0) return null;
+  return requestCount % settings.errorEvery === 0 ? settings.injectError : null;
+};
+
+const createError = (kind: Exclude<MockErrorKind, 'safety'>): Error =>
+  kind === 'network' ? new TypeError('Failed to fetch') : new ApiError(MOCK_API_ERRORS[kind]);
+
+// Flattens the SDK's content and part unions into a list of parts
+const collectParts = (value: unknown): Part[] => {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return [{ text: value }];
+  if (Array.isArray(value)) return value.flatMap(collectParts);
+  if (typeof value === 'object' && value !== null && 'parts' in value) return (value as Content).parts || [];
+  return [value as Part];
+};
+
+const describePrompt = (parts: Part[]): string => parts
+  .map(part => {
+    if (part.text && !part.thought) return part.text;
+    if (part.functionResponse) return `${part.functionResponse.name} returned ${JSON.stringify(part.functionResponse.response)}`;
+    if (part.inlineData) return `[${part.inlineData.mimeType}]`;
+    return '';
+  })
+  .filter(Boolean)
+  .join('\n')
+  .trim();
+
+const matchRule = (settings: MockProviderSettings, prompt: string): string | null => {
+  for (const rule of settings.rules) {
+    try {
+      if (rule.pattern && new RegExp(rule.pattern, 'i').test(prompt)) return rule.response;
+    } catch {
+      // An invalid pattern never matches
+    }
+  }
+  return null;
+};
+
+/** The reply the mock gives to `prompt`: the first matching rule, else the fallback template. */
+export const mockReply = (settings: MockProviderSettings, prompt: string): string => {
+  const echoed = prompt.length > MAX_ECHOED_PROMPT ? `${prompt.slice(0, MAX_ECHOED_PROMPT)}…` : prompt;
+  return matchRule(settings, prompt) ?? settings.fallbackResponse.replace('{prompt}', echoed);
+};
+
+// Words with their trailing space, so streamed chunks concatenate back to the reply
+const splitIntoChunks = (text: string): string[] => text.match(/\S+\s*|\s+/g) || [text];
+
+const toResponse = (text: string, finishReason?: FinishReason): GenerateContentResponse => {
+  const response = new GenerateContentResponse();
+  response.candidates = [{ index: 0, content: { role: 'model', parts: [{ text }] }, finishReason }];
+  return response;
+};
+
+const blockedResponse = (): GenerateContentResponse => {
+  const response = new GenerateContentResponse();
+  response.promptFeedback = { blockReason: BlockedReason.SAFETY };
+  return response;
+};
+
+const createMockChat = (settings: MockProviderSettings, chatConfig?: { abortSignal?: AbortSignal }): ChatSession => ({
+  sendMessageStream: async ({ message, config }) => {
+    const signal = config?.abortSignal ?? chatConfig?.abortSignal;
+    const error = nextInjectedError(settings);
+    await sleep(settings.latencyMs, signal);
+    if (error && error !== 'safety') throw createError(error);
+    const chunks = splitIntoChunks(mockReply(settings, describePrompt(collectParts(message))));
+
+    return (async function* () {
+      if (error === 'safety') {
+        yield blockedResponse();
+        return;
+      }
+      for (let i = 0; i < chunks.length; i++) {
+        if (i > 0) await sleep(settings.chunkDelayMs, signal);
+        yield toResponse(chunks[i], i === chunks.length - 1 ? FinishReason.STOP : undefined);
+      }
+    })();
+  },
+});
+
+// A short tone per word, pitched from its characters, stands in for speech
+const wordTone = (word: string): string => {
+  const frequency = 180 + ([...word].reduce((sum, char) => sum + char.charCodeAt(0), 0) % 8) * 25;
+  const toneSamples = Math.round(OUTPUT_SAMPLE_RATE * WORD_TONE_MS / 1000);
+  const samples = new Float32Array(toneSamples + Math.round(OUTPUT_SAMPLE_RATE * WORD_GAP_MS / 1000));
+  for (let i = 0; i < toneSamples; i++) {
+    const envelope = Math.sin(Math.PI * i / toneSamples);
+    samples[i] = 0.2 * envelope * Math.sin(2 * Math.PI * frequency * i / OUTPUT_SAMPLE_RATE);
+  }
+  return arrayBufferToBase64(float32ToInt16(samples).buffer);
+};
+
+// Root mean square and duration of a base64 16-bit PCM chunk
+const measurePcm = (data: string) => {
+  const samples = new Int16Array(base64ToArrayBuffer(data));
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += (samples[i] / 32768) ** 2;
+  return { rms: Math.sqrt(sum / (samples.length || 1)), durationMs: samples.length / INPUT_SAMPLE_RATE * 1000 };
+};
+
+const connectMockLive = async (settings: MockProviderSettings, { config, callbacks }: LiveConnectParameters): Promise<LiveSession> => {
+  const timers = new Set<number>();
+  let closed = false;
+  let speechMs = 0;
+  let silenceMs = 0;
+  let userActive = false; // Between activityStart and activityEnd when detection is off
+  let resumptionCount = 0;
+  let videoFrames = 0; // Seen during the current user turn
+
+  // Follows the session's activity detection settings, roughly as the server would
+  const detection = config?.realtimeInputConfig?.automaticActivityDetection;
+  const manualActivity = detection?.disabled === true;
+  const speechRms = detection?.startOfSpeechSensitivity === StartSensitivity.START_SENSITIVITY_HIGH ? SPEECH_RMS / 2 : SPEECH_RMS;
+  const endOfTurnMs = detection?.silenceDurationMs ?? END_OF_TURN_MS;
+
+  const later = (action: () => void, ms: number) => {
+    const timer = window.setTimeout(() => {
+      timers.delete(timer);
+      if (!closed) action();
+    }, ms);
+    timers.add(timer);
+  };
+
+  const emit = (message: Partial<LiveServerMessage>) => callbacks.onmessage(Object.assign(new LiveServerMessage(), message));
+
+  // Speaks the reply word by word, then completes the turn
+  const respond = (prompt: string) => {
+    const words = splitIntoChunks(mockReply(settings, prompt));
+    words.forEach((word, i) => later(() => emit({
+      serverContent: {
+        modelTurn: { role: 'model', parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: wordTone(word) } }] },
+        outputTranscription: config?.outputAudioTranscription ? { text: word } : undefined,
+      },
+    }), settings.latencyMs + i * settings.chunkDelayMs));
+    later(() => {
+      emit({ serverContent: { turnComplete: true } });
+      if (config?.sessionResumption) emit({ sessionResumptionUpdate: { newHandle: `mock-${++resumptionCount}`, resumable: true } });
+    }, settings.latencyMs + words.length * settings.chunkDelayMs);
+  };
+
+  // Barge-in: speech during a reply drops the rest of it, as the real server does
+  const interrupt = () => {
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+    emit({ serverContent: { interrupted: true } });
+  };
+
+  const endUserTurn = () => {
+    const heard = `(${(speechMs / 1000).toFixed(1)}s of speech${videoFrames ? `, ${videoFrames} video frames` : ''})`;
+    speechMs = 0;
+    videoFrames = 0;
+    silenceMs = 0;
+    if (config?.inputAudioTranscription) {
+      emit({ serverContent: { inputTranscription: { text: `Mock transcription ${heard}. ` } } });
+    }
+    respond(heard);
+  };
+
+  // A failed connection is reported through the callbacks, like a rejected websocket; the session stays inert
+  const error = nextInjectedError(settings);
+  await sleep(settings.latencyMs);
+  if (error) {
+    closed = true;
+    const message = error === 'network' || error === 'safety' ? 'Mock connection failure.' : MOCK_API_ERRORS[error].message;
+    callbacks.onerror?.(new ErrorEvent('error', { message }));
+    callbacks.onclose?.(new CloseEvent('close', { code: 1011, reason: message }));
+  } else {
+    callbacks.onopen?.();
+  }
+
+  return {
+    sendRealtimeInput: ({ audio, media, video, text, activityStart, activityEnd, audioStreamEnd }) => {
+      if (closed) return;
+      if (text) respond(text);
+      if ((video as { data?: string } | undefined)?.data) videoFrames++;
+      if (activityStart) {
+        if (timers.size) interrupt();
+        userActive = true;
+        speechMs = 0;
+      }
+      if (activityEnd) {
+        userActive = false;
+        if (speechMs > 0) endUserTurn();
+      }
+      if (audioStreamEnd && !manualActivity && speechMs >= MIN_SPEECH_MS) endUserTurn();
+      const blob = audio || (media as { data?: string; mimeType?: string } | undefined);
+      if (!blob?.data || !blob.mimeType?.startsWith('audio/pcm')) return;
+
+      const { rms, durationMs } = measurePcm(blob.data);
+      if (manualActivity) {
+        if (userActive) speechMs += durationMs;
+        return;
+      }
+
+      // Crude voice activity detection: a pause after enough speech ends the turn
+      if (rms > speechRms) {
+        if (timers.size) interrupt();
+        speechMs += durationMs;
+        silenceMs = 0;
+      } else if (speechMs > 0) {
+        silenceMs += durationMs;
+        if (silenceMs >= endOfTurnMs) {
+          if (speechMs >= MIN_SPEECH_MS) endUserTurn();
+          else speechMs = silenceMs = 0;
+        }
+      }
+    },
+    sendClientContent: ({ turns, turnComplete = true }) => {
+      if (turnComplete) respond(describePrompt(collectParts(turns)));
+    },
+    sendToolResponse: ({ functionResponses }) => {
+      respond(describePrompt([functionResponses].flat().map(functionResponse => ({ functionResponse }))));
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'Mock session closed' }));
+    },
+  };
+};
+
+export const mockProvider = (settings: MockProviderSettings): AIProvider => ({
+  id: 'mock',
+  requiresApiKey: false,
+  createChat: ({ config }) => createMockChat(settings, config),
+  generateContent: async ({ contents, config }) => {
+    const error = nextInjectedError(settings);
+    await sleep(settings.latencyMs, config?.abortSignal);
+    if (error === 'safety') return blockedResponse();
+    if (error) throw createError(error);
+
+    const parts = collectParts(contents);
+    const prompt = describePrompt(parts);
+    const hasAudio = parts.some(part => part.inlineData?.mimeType?.startsWith('audio/'));
+    const text = hasAudio ? matchRule(settings, prompt) ?? MOCK_TRANSCRIPT : mockReply(settings, prompt);
+    return toResponse(text, FinishReason.STOP);
+  },
+  connectLive: (params) => connectMockLive(settings, params),
+});
@@ -0,0 +1,184 @@
+import { AppMode, ModelCapability, ModelInfo, ModelSettings, ModelSettingsMap, ModelSettingsMode } from '../types';
+
+const MODEL_SETTINGS_KEY = 'modelSettings';
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: 'gemini-3-pro-preview',
+    label: 'Gemini 3 Pro (Preview)',
+    capabilities: ['text', 'vision', 'documents', 'audioInput', 'thinking'],
+    maxOutputTokens: 65536,
+    contextWindow: 1048576,
+    defaultPrice: { inputPerMillion: 2, outputPerMillion: 12 },
+    thinkingBudgetRange: [128, 32768],
+  },
+  {
+    id: 'gemini-2.5-pro',
+    label: 'Gemini 2.5 Pro',
+    capabilities: ['text', 'vision', 'documents', 'audioInput', 'thinking'],
+    maxOutputTokens: 65536,
+    contextWindow: 1048576,
+    defaultPrice: { inputPerMillion: 1.25, outputPerMillion: 10 },
+    thinkingBudgetRange: [128, 32768],
+  },
+  {
+    id: 'gemini-2.5-flash',
+    label: 'Gemini 2.5 Flash',
+    capabilities: ['text', 'vision', 'documents', 'audioInput', 'thinking'],
+    maxOutputTokens: 65536,
+    contextWindow: 1048576,
+    defaultPrice: { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    thinkingBudgetRange: [0, 24576],
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    label: 'Gemini 2.5 Flash-Lite',
+    capabilities: ['text', 'vision', 'documents', 'audioInput', 'thinking'],
+    maxOutputTokens: 65536,
+    contextWindow: 1048576,
+    defaultPrice: { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    thinkingBudgetRange: [0, 24576],
+  },
+  {
+    id: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    label: 'Gemini 2.5 Flash Native Audio (Preview)',
+    capabilities: ['liveAudio', 'audioInput'],
+    maxOutputTokens: 8192,
+    contextWindow: 131072,
+    defaultPrice: { inputPerMillion: 3, outputPerMillion: 12 },
+  },
+];
+
+export type ModelParameter = 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget' | 'contextBudget';
+
+interface ModeRequirements {
+  capabilities: ModelCapability[];
+  parameters: ModelParameter[]; // Parameters that can be overridden for the mode
+}
+
+// Chat takes its temperature from the active persona, so it is not listed here.
+// Live transcription in Transcribe mode streams through the Live model.
+export const MODE_REQUIREMENTS: Record<ModelSettingsMode, ModeRequirements> = {
+  [AppMode.Chat]: {
+    capabilities: ['text', 'vision', 'documents', 'thinking'],
+    parameters: ['topP', 'maxOutputTokens', 'thinkingBudget', 'contextBudget'],
+  },
+  [AppMode.Live]: {
+    capabilities: ['liveAudio'],
+    parameters: ['temperature', 'topP', 'maxOutputTokens'],
+  },
+  [AppMode.Transcribe]: {
+    capabilities: ['audioInput', 'text'],
+    parameters: ['temperature', 'topP', 'maxOutputTokens', 'thinkingBudget'],
+  },
+};
+
+export const MODEL_SETTINGS_MODES = Object.keys(MODE_REQUIREMENTS) as ModelSettingsMode[];
+
+export const THINKING_BUDGET_OPTIONS = [4096, 8192, 16384, 32768];
+export const DEFAULT_THINKING_BUDGET = 32768;
+
+// Well below the context window: long histories are slow and costly long before they fail
+export const DEFAULT_CONTEXT_BUDGET = 131072;
+export const MIN_CONTEXT_BUDGET = 8192;
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettingsMap = {
+  [AppMode.Chat]: { model: 'gemini-3-pro-preview', thinkingBudget: DEFAULT_THINKING_BUDGET },
+  [AppMode.Live]: { model: 'gemini-2.5-flash-native-audio-preview-09-2025' },
+  [AppMode.Transcribe]: { model: 'gemini-2.5-flash' },
+};
+
+export const PARAMETER_RANGES: Record<Exclude<ModelParameter, 'maxOutputTokens' | 'thinkingBudget' | 'contextBudget'>, [number, number]> = {
+  temperature: [0, 2],
+  topP: [0, 1],
+};
+
+export const getModel = (id: string): ModelInfo | undefined => MODELS.find(m => m.id === id);
+
+export const supportsMode = (model: ModelInfo, mode: ModelSettingsMode) =>
+  MODE_REQUIREMENTS[mode].capabilities.every(capability => model.capabilities.includes(capability));
+
+export const getModelsForMode = (mode: ModelSettingsMode): ModelInfo[] => MODELS.filter(m => supportsMode(m, mode));
+
+export type ModelSettingsIssue =
+  | 'unknownModel'
+  | 'modelUnsupported'
+  | 'temperatureRange'
+  | 'topPRange'
+  | 'maxOutputTokensRange'
+  | 'thinkingBudgetRange'
+  | 'contextBudgetRange';
+
+const inRange = (value: number, [min, max]: [number, number]) => Number.isFinite(value) && value >= min && value <= max;
+
+/** Lists every field of `settings` that the mode or the chosen model cannot use. */
+export const validateModelSettings = (mode: ModelSettingsMode, settings: ModelSettings): ModelSettingsIssue[] => {
+  const model = getModel(settings.model);
+  if (!model) return ['unknownModel'];
+
+  const issues: ModelSettingsIssue[] = [];
+  if (!supportsMode(model, mode)) issues.push('modelUnsupported');
+  if (settings.temperature !== undefined && !inRange(settings.temperature, PARAMETER_RANGES.temperature)) issues.push('temperatureRange');
+  if (settings.topP !== undefined && !inRange(settings.topP, PARAMETER_RANGES.topP)) issues.push('topPRange');
+  if (settings.maxOutputTokens !== undefined && !inRange(settings.maxOutputTokens, [1, model.maxOutputTokens])) {
+    issues.push('maxOutputTokensRange');
+  }
+  if (settings.thinkingBudget !== undefined && !(model.thinkingBudgetRange && inRange(settings.thinkingBudget, model.thinkingBudgetRange))) {
+    issues.push('thinkingBudgetRange');
+  }
+  if (settings.contextBudget !== undefined && !inRange(settings.contextBudget, [MIN_CONTEXT_BUDGET, model.contextWindow])) {
+    issues.push('contextBudgetRange');
+  }
+  return issues;
+};
+
+/**
+ * Returns settings that are safe to send: an unusable model falls back to the
+ * mode default and out-of-range or inapplicable parameters are dropped.
+ */
+export const resolveModelSettings = (mode: ModelSettingsMode, settings?: Partial<ModelSettings>): ModelSettings => {
+  const fallback = DEFAULT_MODEL_SETTINGS[mode];
+  const model = getModel(settings?.model || '');
+  const resolved: ModelSettings = model && supportsMode(model, mode)
+    ? { ...fallback, ...settings, model: model.id }
+    : { ...fallback, ...settings, model: fallback.model };
+
+  const allowed = MODE_REQUIREMENTS[mode].parameters;
+  for (const parameter of ['temperature', 'topP', 'maxOutputTokens', 'thinkingBudget', 'contextBudget'] as ModelParameter[]) {
+    if (!allowed.includes(parameter)) delete resolved[parameter];
+  }
+  const issues = validateModelSettings(mode, resolved);
+  if (issues.includes('temperatureRange')) delete resolved.temperature;
+  if (issues.includes('topPRange')) delete resolved.topP;
+  if (issues.includes('maxOutputTokensRange')) delete resolved.maxOutputTokens;
+  if (issues.includes('thinkingBudgetRange')) delete resolved.thinkingBudget;
+  if (issues.includes('contextBudgetRange')) delete resolved.contextBudget;
+  return resolved;
+};
+
+export const loadModelSettings = (): ModelSettingsMap => {
+  let stored: Partial<ModelSettingsMap> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(MODEL_SETTINGS_KEY) || '{}') || {};
+  } catch (error) {
+    console.error("Failed to read model settings:", error);
+  }
+  return {
+    [AppMode.Chat]: { ...DEFAULT_MODEL_SETTINGS[AppMode.Chat], ...stored[AppMode.Chat] },
+    [AppMode.Live]: { ...DEFAULT_MODEL_SETTINGS[AppMode.Live], ...stored[AppMode.Live] },
+    [AppMode.Transcribe]: { ...DEFAULT_MODEL_SETTINGS[AppMode.Transcribe], ...stored[AppMode.Transcribe] },
+  };
+};
+
+export const saveModelSettings = (settings: ModelSettingsMap) => {
+  localStorage.setItem(MODEL_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** Generation config fields shared by the chat, transcription and live requests. */
+export const toGenerationConfig = (settings: ModelSettings) => {
+  const config: { temperature?: number; topP?: number; maxOutputTokens?: number } = {};
+  if (settings.temperature !== undefined) config.temperature = settings.temperature;
+  if (settings.topP !== undefined) config.topP = settings.topP;
+  if (settings.maxOutputTokens !== undefined) config.maxOutputTokens = settings.maxOutputTokens;
+  return config;
+};
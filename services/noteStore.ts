@@ -0,0 +1,21 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SavedNote } from '../types';
+
+const NOTES_KEY = 'savedNotes';
+const MAX_NOTES = 200;
+
+export const loadNotes = (): SavedNote[] => {
+  try {
+    return JSON.parse(localStorage.getItem(NOTES_KEY) || '[]');
+  } catch (error) {
+    console.error("Failed to read notes:", error);
+    return [];
+  }
+};
+
+// Newest first, capped like saved transcripts
+export const saveNote = (text: string): SavedNote => {
+  const note: SavedNote = { id: uuidv4(), text, timestamp: Date.now() };
+  localStorage.setItem(NOTES_KEY, JSON.stringify([note, ...loadNotes()].slice(0, MAX_NOTES)));
+  return note;
+};
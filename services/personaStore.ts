@@ -0,0 +1,44 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatPersona } from '../types';
+
+const PERSONAS_KEY = 'chatPersonas';
+
+export const DEFAULT_PERSONA_ID = 'default';
+export const MIN_TEMPERATURE = 0;
+export const MAX_TEMPERATURE = 2;
+
+// The built-in assistant; it can be edited but not deleted
+export const DEFAULT_PERSONA: ChatPersona = {
+  id: DEFAULT_PERSONA_ID,
+  name: 'Gemini',
+  systemPrompt: 'You are a helpful, intelligent assistant. You are capable of speaking Thai and English fluently. Answer politely and accurately.',
+  defaultThinkingMode: false,
+  temperature: 1,
+};
+
+export const loadPersonas = (): ChatPersona[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PERSONAS_KEY) || '[]');
+    if (Array.isArray(stored) && stored.length > 0) {
+      // Make sure the default persona survives hand-edited or partial storage
+      return stored.some((p: ChatPersona) => p.id === DEFAULT_PERSONA_ID) ? stored : [DEFAULT_PERSONA, ...stored];
+    }
+  } catch (error) {
+    console.error("Failed to read personas:", error);
+  }
+  return [DEFAULT_PERSONA];
+};
+
+export const savePersonas = (personas: ChatPersona[]) => {
+  localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+};
+
+export const createPersona = (name: string): ChatPersona => ({
+  ...DEFAULT_PERSONA,
+  id: uuidv4(),
+  name,
+});
+
+// Threads whose persona was deleted fall back to the default one
+export const findPersona = (personas: ChatPersona[], id?: string): ChatPersona =>
+  personas.find(p => p.id === id) || personas.find(p => p.id === DEFAULT_PERSONA_ID) || DEFAULT_PERSONA;
@@ -0,0 +1,17 @@
+import { v4 as uuidv4 } from 'uuid';
+import { LiveRecording } from '../types';
+import { RECORDINGS_STORE, withStore } from './database';
+
+// Newest first
+export const listRecordings = (): Promise<LiveRecording[]> =>
+  withStore<LiveRecording[]>(RECORDINGS_STORE, 'readonly', store => store.getAll())
+    .then(recordings => recordings.sort((a, b) => b.createdAt - a.createdAt));
+
+export const saveRecording = async (recording: Omit<LiveRecording, 'id'>): Promise<LiveRecording> => {
+  const saved: LiveRecording = { ...recording, id: uuidv4() };
+  await withStore(RECORDINGS_STORE, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const deleteRecording = (id: string): Promise<void> =>
+  withStore(RECORDINGS_STORE, 'readwrite', store => store.delete(id));
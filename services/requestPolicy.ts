@@ -0,0 +1,164 @@
+// Error classification, retries and offline queueing shared by every Gemini request.
+
+import { ApiError } from '@google/genai';
+
+export type RequestErrorKind =
+  | 'rateLimit'
+  | 'quota'
+  | 'invalidKey'
+  | 'network'
+  | 'safety'
+  | 'contextTooLong'
+  | 'server'
+  | 'unknown';
+
+export type RequestStatus =
+  | { state: 'offline' } // Queued until the browser is back online
+  | { state: 'retrying'; kind: RequestErrorKind; attempt: number; maxAttempts: number; delayMs: number };
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  onStatus?: (status: RequestStatus | null) => void; // null once a request is under way again after a wait
+}
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+const RETRYABLE: RequestErrorKind[] = ['rateLimit', 'network', 'server'];
+
+// Prefix of the error thrown when a prompt or response is blocked, so it can be told apart from API failures
+const SAFETY_BLOCK_PREFIX = 'Blocked by safety filters';
+
+export const safetyBlockError = (reason: string) => new Error(`${SAFETY_BLOCK_PREFIX}: ${reason}`);
+
+// Finish reasons that mean the response itself was refused
+const BLOCK_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+/** Returns the block reason when a response (or stream chunk) was refused on content grounds. */
+export const getBlockReason = (response: { promptFeedback?: { blockReason?: string }; candidates?: { finishReason?: string }[] }): string | null => {
+  if (response.promptFeedback?.blockReason) return response.promptFeedback.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return finishReason && BLOCK_FINISH_REASONS.includes(finishReason) ? finishReason : null;
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error ?? ''));
+
+/**
+ * Sorts a failed request into a category the UI can explain. The SDK puts the
+ * HTTP status on `ApiError.status` and the JSON error body in the message;
+ * fetch failures surface as a TypeError whose wording differs per browser.
+ */
+export const classifyRequestError = (error: unknown): RequestErrorKind => {
+  const status = error instanceof ApiError ? error.status : undefined;
+  const message = errorMessage(error);
+
+  if (message.startsWith(SAFETY_BLOCK_PREFIX)) return 'safety';
+  if (/API Key not found|API key not valid|API_KEY_INVALID|Requested entity was not found/i.test(message)
+    || status === 401 || status === 403) {
+    return 'invalidKey';
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+    // Daily and billing limits will not clear by retrying; per-minute limits will
+    return /billing|PerDay|per day/i.test(message) ? 'quota' : 'rateLimit';
+  }
+  if (/token count|exceeds the maximum number of tokens|too many tokens|context (window|length)|request payload size/i.test(message)
+    || status === 413) {
+    return 'contextTooLong';
+  }
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded|DEADLINE_EXCEEDED|INTERNAL/.test(message)) return 'server';
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return 'network';
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return 'network';
+  return 'unknown';
+};
+
+export const isRetryable = (kind: RequestErrorKind) => RETRYABLE.includes(kind);
+
+// Server-suggested wait from a RetryInfo detail, e.g. "retryDelay": "27s"
+const parseRetryDelay = (error: unknown): number | null => {
+  const match = errorMessage(error).match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? parseFloat(match[1]) * 1000 : null;
+};
+
+// Exponential backoff with jitter, so clients that failed together do not retry together
+export const backoffDelay = (attempt: number) => {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+const abortError = () => new DOMException('The request was aborted.', 'AbortError');
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts. */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Resolves once the browser reports a connection. Waiters are released in the
+ * order they started waiting, so queued sends go out in the order they were made.
+ */
+export const waitForOnline = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  if (navigator.onLine) return resolve();
+  const onOnline = () => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  };
+  const onAbort = () => {
+    window.removeEventListener('online', onOnline);
+    reject(abortError());
+  };
+  window.addEventListener('online', onOnline, { once: true });
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `operation`, waiting for the connection first when offline and retrying
+ * rate limits, network failures and server errors with backoff. Other errors,
+ * and the last failure once attempts run out, are rethrown unchanged.
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  { signal, maxAttempts = DEFAULT_MAX_ATTEMPTS, onStatus }: RetryOptions = {}
+): Promise<T> => {
+  let waited = false;
+  for (let attempt = 1; ; attempt++) {
+    if (!navigator.onLine) {
+      onStatus?.({ state: 'offline' });
+      await waitForOnline(signal);
+      waited = true;
+    }
+    if (signal?.aborted) throw abortError();
+    if (waited) onStatus?.(null);
+
+    try {
+      return await operation();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const kind = classifyRequestError(error);
+      if (!isRetryable(kind)) throw error;
+
+      // Going offline mid-request is not a failed attempt; the next loop waits for the connection
+      if (!navigator.onLine) {
+        attempt--;
+        continue;
+      }
+      if (attempt >= maxAttempts) throw error;
+      const delayMs = Math.min(MAX_DELAY_MS, Math.max(backoffDelay(attempt), parseRetryDelay(error) ?? 0));
+      console.warn(`Request failed (${kind}), retrying in ${delayMs}ms`, error);
+      onStatus?.({ state: 'retrying', kind, attempt: attempt + 1, maxAttempts, delayMs });
+      await sleep(delayMs, signal);
+      waited = true;
+    }
+  }
+};
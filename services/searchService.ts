@@ -0,0 +1,66 @@
+import { AppMode, SearchDocument } from '../types';
+import { listConversations } from './conversationStore';
+import { loadTranscripts } from './transcriptStore';
+import { loadSnippets } from './snippetStore';
+
+/**
+ * Gathers everything global search covers: chat threads by title, every chat
+ * message on every branch, saved transcripts and saved Codegen snippets.
+ * Conversations that cannot be read (no IndexedDB) are left out rather than
+ * failing the search.
+ */
+export const loadSearchDocuments = async (): Promise<SearchDocument[]> => {
+  const documents: SearchDocument[] = [];
+
+  try {
+    for (const conversation of await listConversations()) {
+      // The title is matched once, here, so a title hit does not rank every message in the thread
+      documents.push({
+        id: `chat:${conversation.id}`,
+        mode: AppMode.Chat,
+        title: conversation.title,
+        text: '',
+        timestamp: conversation.updatedAt,
+        target: { source: 'chat', conversationId: conversation.id },
+      });
+      for (const msg of conversation.messages) {
+        if (msg.id === 'init' || msg.isError || msg.isThinking || !msg.text.trim()) continue;
+        documents.push({
+          id: `chat:${conversation.id}:${msg.id}`,
+          mode: AppMode.Chat,
+          title: conversation.title,
+          text: msg.text,
+          timestamp: msg.timestamp,
+          target: { source: 'chat', conversationId: conversation.id, messageId: msg.id },
+          indexTitle: false,
+        });
+      }
+    }
+  } catch (error) {
+    console.error("Failed to load conversations for search:", error);
+  }
+
+  for (const transcript of loadTranscripts()) {
+    documents.push({
+      id: `transcript:${transcript.id}`,
+      mode: AppMode.Transcribe,
+      title: transcript.title,
+      text: transcript.text,
+      timestamp: transcript.timestamp,
+      target: { source: 'transcript', transcriptId: transcript.id },
+    });
+  }
+
+  for (const snippet of loadSnippets()) {
+    documents.push({
+      id: `snippet:${snippet.id}`,
+      mode: AppMode.Codegen,
+      title: snippet.description,
+      text: snippet.code,
+      timestamp: snippet.timestamp,
+      target: { source: 'snippet', snippetId: snippet.id },
+    });
+  }
+
+  return documents;
+};
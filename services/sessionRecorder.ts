@@ -0,0 +1,143 @@
+import { addWorkletModule, encodeWav } from './audio';
+
+// Records a Live call in the playback context, so the microphone and the
+// model's voice share one clock and land on a single timeline. A worklet
+// collects 16-bit PCM for the WAV file; MediaRecorder optionally writes an
+// Opus copy from the same mix.
+
+const PROCESSOR_NAME = 'pcm-recorder';
+const WEBM_MIME_TYPE = 'audio/webm;codecs=opus';
+const FLUSH_TIMEOUT_MS = 1000;
+
+const WORKLET_SOURCE = `
+class PcmRecorderProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.chunkSamples = options.processorOptions.chunkSamples;
+    this.chunk = new Int16Array(this.chunkSamples);
+    this.filled = 0;
+    this.port.onmessage = (event) => {
+      if (event.data !== 'flush') return;
+      if (this.filled) this.post(this.chunk.slice(0, this.filled));
+      this.filled = 0;
+      this.port.postMessage({ type: 'flushed' });
+    };
+  }
+
+  post(chunk) {
+    this.port.postMessage({ type: 'chunk', data: chunk }, [chunk.buffer]);
+  }
+
+  process(inputs) {
+    // With nothing playing the input is empty; silence is recorded so the timeline keeps running
+    const channel = inputs[0] && inputs[0][0];
+    const frames = channel ? channel.length : 128;
+    for (let i = 0; i < frames; i++) {
+      const s = channel ? Math.max(-1, Math.min(1, channel[i])) : 0;
+      this.chunk[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+      if (this.filled === this.chunkSamples) {
+        this.post(this.chunk);
+        this.chunk = new Int16Array(this.chunkSamples);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmRecorderProcessor);
+`;
+
+export interface RecordedAudio {
+  startedAt: number;
+  durationMs: number;
+  wav: Blob;
+  webm?: Blob;
+}
+
+export interface SessionRecorder {
+  input: AudioNode; // Model playback connects here
+  setMicEnabled: (enabled: boolean) => void; // Keeps muted audio out of the recording
+  stop: () => Promise<RecordedAudio>; // Call before the context closes
+}
+
+export const isWebmRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(WEBM_MIME_TYPE);
+
+export const startSessionRecorder = async (
+  context: AudioContext,
+  micStream: MediaStream,
+  { webm }: { webm: boolean }
+): Promise<SessionRecorder> => {
+  await addWorkletModule(context, WORKLET_SOURCE);
+  const startedAt = Date.now();
+
+  const mix = context.createGain();
+  const micGain = context.createGain();
+  micGain.connect(mix);
+  try {
+    context.createMediaStreamSource(micStream).connect(micGain);
+  } catch (err) {
+    // Some browsers refuse to feed a stream into a context at another sample rate; the model side is still kept
+    console.warn("Microphone could not be added to the recording:", err);
+  }
+
+  const chunks: Int16Array[] = [];
+  let onFlushed: (() => void) | null = null;
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { chunkSamples: Math.round(context.sampleRate / 2) },
+  });
+  node.port.onmessage = (event: MessageEvent<{ type: 'chunk'; data: Int16Array } | { type: 'flushed' }>) => {
+    if (event.data.type === 'chunk') chunks.push(event.data.data);
+    else onFlushed?.();
+  };
+  mix.connect(node);
+
+  let mediaRecorder: MediaRecorder | null = null;
+  const webmChunks: Blob[] = [];
+  if (webm && isWebmRecordingSupported()) {
+    const destination = context.createMediaStreamDestination();
+    mix.connect(destination);
+    mediaRecorder = new MediaRecorder(destination.stream, { mimeType: WEBM_MIME_TYPE });
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size) webmChunks.push(event.data);
+    };
+    mediaRecorder.start(1000);
+  }
+
+  const flushWorklet = () => new Promise<void>(resolve => {
+    const timer = window.setTimeout(resolve, FLUSH_TIMEOUT_MS); // A suspended context never answers
+    onFlushed = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    node.port.postMessage('flush');
+  });
+
+  const stopMediaRecorder = () => new Promise<void>(resolve => {
+    if (!mediaRecorder || mediaRecorder.state === 'inactive') return resolve();
+    mediaRecorder.onstop = () => resolve();
+    mediaRecorder.stop();
+  });
+
+  return {
+    input: mix,
+    setMicEnabled: (enabled) => micGain.gain.setValueAtTime(enabled ? 1 : 0, context.currentTime),
+    stop: async () => {
+      mix.disconnect();
+      await Promise.all([flushWorklet(), stopMediaRecorder()]);
+      node.port.onmessage = null;
+      const samples = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+      return {
+        startedAt,
+        durationMs: Math.round(samples / context.sampleRate * 1000),
+        wav: encodeWav(chunks, context.sampleRate),
+        webm: webmChunks.length ? new Blob(webmChunks, { type: WEBM_MIME_TYPE }) : undefined,
+      };
+    },
+  };
+};
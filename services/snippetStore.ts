@@ -0,0 +1,13 @@
+import { SavedCodeSnippet } from '../types';
+
+// Written by the Codegen library; read here by chat tools and global search
+const SNIPPETS_KEY = 'savedCodeSnippets';
+
+export const loadSnippets = (): SavedCodeSnippet[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SNIPPETS_KEY) || '[]');
+  } catch (error) {
+    console.error("Failed to read saved snippets:", error);
+    return [];
+  }
+};
@@ -0,0 +1,29 @@
+import { v4 as uuidv4 } from 'uuid';
+import { LiveTranscriptEntry, SavedTranscript } from '../types';
+
+const TRANSCRIPTS_KEY = 'savedTranscripts';
+const MAX_TRANSCRIPTS = 100;
+const MAX_STORED_TURNS = 500; // Per call; the text keeps the whole conversation
+
+export const loadTranscripts = (): SavedTranscript[] => {
+  try {
+    return JSON.parse(localStorage.getItem(TRANSCRIPTS_KEY) || '[]');
+  } catch (error) {
+    console.error("Failed to read transcripts:", error);
+    return [];
+  }
+};
+
+// Newest first; the oldest entries are dropped past MAX_TRANSCRIPTS to stay within localStorage limits.
+// Throws when localStorage is full.
+export const saveTranscript = (
+  title: string,
+  text: string,
+  source: SavedTranscript['source'],
+  turns?: LiveTranscriptEntry[]
+): SavedTranscript => {
+  const transcript: SavedTranscript = { id: uuidv4(), title, text, source, timestamp: Date.now(), turns: turns?.slice(-MAX_STORED_TURNS) };
+  const transcripts = [transcript, ...loadTranscripts()].slice(0, MAX_TRANSCRIPTS);
+  localStorage.setItem(TRANSCRIPTS_KEY, JSON.stringify(transcripts));
+  return transcript;
+};
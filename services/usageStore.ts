@@ -0,0 +1,146 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ModelPrice, ModelSettingsMode, UsageBudget, UsageRecord } from '../types';
+import { USAGE_STORE, withStore } from './database';
+import { MODELS } from './modelRegistry';
+
+const PRICES_KEY = 'usagePrices';
+const BUDGET_KEY = 'usageBudget';
+
+// Shape shared by `usageMetadata` on generateContent responses, stream chunks and live messages
+export interface UsageMetadataLike {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number; // generateContent / chat
+  responseTokenCount?: number; // Live API
+  thoughtsTokenCount?: number;
+}
+
+export const recordUsage = async (
+  mode: ModelSettingsMode,
+  model: string,
+  usage: UsageMetadataLike | undefined,
+  conversationId?: string
+): Promise<void> => {
+  if (!usage) return;
+  const record: UsageRecord = {
+    id: uuidv4(),
+    timestamp: Date.now(),
+    mode,
+    model,
+    conversationId,
+    promptTokens: usage.promptTokenCount || 0,
+    responseTokens: usage.candidatesTokenCount ?? usage.responseTokenCount ?? 0,
+    thinkingTokens: usage.thoughtsTokenCount || 0,
+  };
+  if (record.promptTokens + record.responseTokens + record.thinkingTokens === 0) return;
+
+  try {
+    await withStore(USAGE_STORE, 'readwrite', store => store.put(record));
+  } catch (error) {
+    // Usage tracking must never break the request that produced it
+    console.error("Failed to record usage:", error);
+  }
+};
+
+export const listUsage = async (since = 0): Promise<UsageRecord[]> => {
+  const records = await withStore<UsageRecord[]>(USAGE_STORE, 'readonly', store =>
+    store.index('timestamp').getAll(IDBKeyRange.lowerBound(since))
+  );
+  return records;
+};
+
+export const clearUsage = async (): Promise<void> => {
+  await withStore(USAGE_STORE, 'readwrite', store => store.clear());
+};
+
+export const getDefaultPrices = (): Record<string, ModelPrice> =>
+  Object.fromEntries(MODELS.map(model => [model.id, model.defaultPrice]));
+
+export const loadPrices = (): Record<string, ModelPrice> => {
+  try {
+    return { ...getDefaultPrices(), ...JSON.parse(localStorage.getItem(PRICES_KEY) || '{}') };
+  } catch (error) {
+    console.error("Failed to read prices:", error);
+    return getDefaultPrices();
+  }
+};
+
+export const savePrices = (prices: Record<string, ModelPrice>) => {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+};
+
+export const loadBudget = (): UsageBudget => {
+  try {
+    return JSON.parse(localStorage.getItem(BUDGET_KEY) || '{}') || {};
+  } catch (error) {
+    console.error("Failed to read budget:", error);
+    return {};
+  }
+};
+
+export const saveBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+};
+
+// Thinking tokens are billed at the output rate
+export const estimateCost = (record: UsageRecord, prices: Record<string, ModelPrice>): number => {
+  const price = prices[record.model];
+  if (!price) return 0;
+  return (record.promptTokens * price.inputPerMillion + (record.responseTokens + record.thinkingTokens) * price.outputPerMillion) / 1_000_000;
+};
+
+export const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export const startOfMonth = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(1);
+  return date.getTime();
+};
+
+export interface BudgetStatus {
+  dailySpent: number;
+  monthlySpent: number;
+  exceeded: 'daily' | 'monthly' | null;
+}
+
+/** Spending so far today and this month, checked against the stored budget. */
+export const getBudgetStatus = async (): Promise<BudgetStatus> => {
+  const now = Date.now();
+  const budget = loadBudget();
+  const prices = loadPrices();
+  const records = await listUsage(startOfMonth(now));
+
+  const dayStart = startOfDay(now);
+  let dailySpent = 0;
+  let monthlySpent = 0;
+  for (const record of records) {
+    const cost = estimateCost(record, prices);
+    monthlySpent += cost;
+    if (record.timestamp >= dayStart) dailySpent += cost;
+  }
+
+  let exceeded: BudgetStatus['exceeded'] = null;
+  if (budget.dailyLimit !== undefined && dailySpent >= budget.dailyLimit) exceeded = 'daily';
+  else if (budget.monthlyLimit !== undefined && monthlySpent >= budget.monthlyLimit) exceeded = 'monthly';
+
+  return { dailySpent, monthlySpent, exceeded };
+};
+
+/**
+ * Asks the user to confirm a request once a budget is used up. Resolves to
+ * true when the request may go ahead; a failed lookup never blocks sending.
+ */
+export const confirmWithinBudget = async (messages: Record<'daily' | 'monthly', string>): Promise<boolean> => {
+  try {
+    const status = await getBudgetStatus();
+    if (!status.exceeded) return true;
+    return window.confirm(messages[status.exceeded]);
+  } catch (error) {
+    console.error("Failed to check budget:", error);
+    return true;
+  }
+};
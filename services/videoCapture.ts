@@ -0,0 +1,96 @@
+// Camera and screen capture for Live sessions. Frames are sampled from a
+// hidden video element at a fixed rate, scaled down on a canvas and
+// JPEG-encoded, ready for sendRealtimeInput.
+
+import { LiveVideoSettings, LiveVideoSource } from '../types';
+import { blobToBase64 } from './audio';
+
+export const VIDEO_MIME_TYPE = 'image/jpeg';
+const JPEG_QUALITY = 0.7;
+
+export interface VideoFrame {
+  data: string; // Base64 JPEG
+  bytes: number;
+  width: number;
+  height: number;
+}
+
+export interface VideoCaptureOptions {
+  onFrame: (frame: VideoFrame) => void;
+  onEnded?: () => void; // The user stopped sharing from the browser's own controls
+}
+
+export interface VideoCapture {
+  source: LiveVideoSource;
+  stream: MediaStream; // For the local preview
+  stop: () => void;
+}
+
+const openStream = async (source: LiveVideoSource, { frameRate, maxWidth }: LiveVideoSettings): Promise<MediaStream> => {
+  try {
+    return source === 'camera'
+      ? await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: maxWidth } } })
+      : await navigator.mediaDevices.getDisplayMedia({ video: { frameRate: { max: Math.max(1, frameRate) } }, audio: false });
+  } catch (err) {
+    console.error(`${source === 'camera' ? 'Camera' : 'Screen'} access error:`, err);
+    throw new Error(source === 'camera' ? "Could not access camera." : "Screen sharing was cancelled or blocked.");
+  }
+};
+
+export const openVideoCapture = async (
+  source: LiveVideoSource,
+  settings: LiveVideoSettings,
+  { onFrame, onEnded }: VideoCaptureOptions
+): Promise<VideoCapture> => {
+  const stream = await openStream(source, settings);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  try {
+    await video.play();
+  } catch (err) {
+    stream.getTracks().forEach(track => track.stop());
+    throw err;
+  }
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  let encoding = false;
+  let stopped = false;
+
+  const captureFrame = async () => {
+    // A frame still encoding on a slow device is not queued behind
+    if (encoding || stopped || !context || !video.videoWidth) return;
+    encoding = true;
+    try {
+      const scale = Math.min(1, settings.maxWidth / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, VIDEO_MIME_TYPE, JPEG_QUALITY));
+      if (!blob || stopped) return;
+      onFrame({ data: await blobToBase64(blob), bytes: blob.size, width: canvas.width, height: canvas.height });
+    } catch (err) {
+      console.error("Failed to capture video frame:", err);
+    } finally {
+      encoding = false;
+    }
+  };
+  const timer = window.setInterval(captureFrame, 1000 / settings.frameRate);
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(timer);
+    stream.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+  };
+  stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+    if (stopped) return;
+    stop();
+    onEnded?.();
+  });
+
+  return { source, stream, stop };
+};
@@ -7,29 +7,206 @@ export enum Sender {
 
 export interface ChatMessage {
   id: string;
+  parentId?: string | null; // Previous message in the branch; null for the first message of a thread
   role: Sender;
   text: string;
   isThinking?: boolean;
+  thinkingMode?: boolean; // Thinking setting the turn was sent with (user messages)
+  thinkingBudget?: number;
+  isStreaming?: boolean; // Bot response is still arriving chunk by chunk
+  interrupted?: boolean; // User stopped the stream; text holds the partial reply
+  isError?: boolean; // Error notice shown in place of a reply; never sent back to the model
+  toolCalls?: ToolInvocation[]; // Local tools the model called while producing this reply
+  citations?: ChatCitation[]; // Library excerpts the reply cites as [n]
   timestamp: number;
+  attachments?: ChatAttachment[];
+  // Legacy single-PDF field from older threads; migrated to `attachments` when a thread is opened
   attachment?: {
     name: string;
     type: string;
+    mimeType?: string;
+    data?: string;
   };
 }
 
+export interface ToolInvocation {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'done' | 'error';
+  result?: unknown;
+  error?: string;
+  thoughtSignature?: string; // Returned with the call by thinking models; sent back when the turn is replayed
+}
+
+export interface ChatCitation {
+  index: number; // The [n] marker used in the reply
+  documentId: string;
+  documentName: string;
+  page?: number; // 1-based PDF page; unset for text files
+  excerpt: string;
+}
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+export interface ChatAttachment {
+  name: string;
+  kind: AttachmentKind;
+  mimeType: string;
+  size: number; // Bytes
+  data: string; // Base64 payload, kept so the thread can be replayed to the model
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[]; // All branches, linked by parentId
+  selectedBranches?: Record<string, string>; // Parent id -> child shown in the UI
+  personaId?: string; // Persona whose instructions the thread is sent with
+  enabledTools?: string[]; // Names of the local tools offered to the model; unset means all
+  summaries?: ConversationSummary[]; // Compacted history, one per branch point it was made at
+}
+
+// Older turns folded into a summary that is sent in their place
+export interface ConversationSummary {
+  throughMessageId: string; // Last message covered; the summary applies to every branch below it
+  text: string;
+  messageCount: number; // Messages covered, including those of earlier summaries it replaced
+  createdAt: number;
+}
+
+// A file in a thread's document library, parsed and chunked for retrieval
+export interface LibraryDocument {
+  id: string;
+  conversationId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  pageCount: number;
+  chunkCount: number;
+  addedAt: number;
+  blob: Blob; // Original file, opened when a citation is clicked
+}
+
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  conversationId: string;
+  page?: number; // 1-based PDF page; unset for text files
+  text: string;
+}
+
+export interface ChatPersona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  defaultThinkingMode: boolean; // Thinking toggle applied when the persona is picked
+  temperature: number; // 0 - 2
+}
+
 export enum AppMode {
   Chat = 'chat',
   Live = 'live',
   Transcribe = 'transcribe',
   Codegen = 'codegen',
   MergeSimulator = 'mergeSimulator', // NEW
+  Usage = 'usage',
   Settings = 'settings', 
 }
 
+// Modes that call a model and can have it overridden in Settings
+export type ModelSettingsMode = AppMode.Chat | AppMode.Live | AppMode.Transcribe;
+
+export type ModelCapability = 'text' | 'vision' | 'documents' | 'audioInput' | 'liveAudio' | 'thinking';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  capabilities: ModelCapability[];
+  maxOutputTokens: number;
+  contextWindow: number; // Input token limit
+  thinkingBudgetRange?: [number, number]; // Only for models with the `thinking` capability
+  defaultPrice: ModelPrice; // Paid-tier list price; users can override it in the usage view
+}
+
+// Unset parameters fall back to the model's own defaults
+export interface ModelSettings {
+  model: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number;
+  contextBudget?: number; // Chat history tokens kept before older turns are summarized
+}
+
+export type ModelSettingsMap = Record<ModelSettingsMode, ModelSettings>;
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Request failures the mock provider can simulate, named like the categories the UI explains
+export type MockErrorKind = 'rateLimit' | 'quota' | 'invalidKey' | 'network' | 'safety' | 'contextTooLong' | 'server';
+
+export interface MockRule {
+  id: string;
+  pattern: string; // Case-insensitive regular expression tested against the prompt text
+  response: string;
+}
+
+export interface MockProviderSettings {
+  rules: MockRule[]; // First match wins
+  fallbackResponse: string; // Used when no rule matches; {prompt} is replaced with the prompt text
+  latencyMs: number; // Delay before a response starts
+  chunkDelayMs: number; // Delay between streamed chunks
+  injectError?: MockErrorKind;
+  errorEvery: number; // Every Nth request fails with `injectError`; 0 never fails
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  mock: MockProviderSettings;
+}
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per 1M prompt tokens
+  outputPerMillion: number; // USD per 1M response and thinking tokens
+}
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  mode: ModelSettingsMode;
+  model: string;
+  conversationId?: string;
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
+}
+
+export interface UsageBudget {
+  dailyLimit?: number; // USD
+  monthlyLimit?: number; // USD
+}
+
 export interface AudioVisualizerData {
   volume: number;
 }
 
+export type LiveMicMode = 'openMic' | 'pushToTalk';
+
+export type VoiceActivitySensitivity = 'low' | 'medium' | 'high';
+
+// How the microphone feeds a Live session; applied when the session connects
+export interface LiveInputSettings {
+  micMode: LiveMicMode; // openMic: the server detects speech; pushToTalk: the user marks each turn
+  sensitivity: VoiceActivitySensitivity; // Server voice activity detection in open-mic mode
+}
+
+// off, or the formats a Live call is recorded in
+export type LiveRecordingMode = 'off' | 'wav' | 'wavAndWebm';
+
 export interface LiveConnectionState {
   isConnected: boolean;
   isStreaming: boolean;
@@ -73,6 +250,67 @@ export interface SavedCodeSnippet {
   engineSignature?: string;
 }
 
+// Where a global search result lives; selecting it opens that item in its mode
+export type SearchTarget =
+  | { source: 'chat'; conversationId: string; messageId?: string } // No message: the thread itself
+  | { source: 'transcript'; transcriptId: string }
+  | { source: 'snippet'; snippetId: string };
+
+export interface SearchDocument {
+  id: string;
+  mode: AppMode;
+  title: string;
+  text: string;
+  timestamp: number;
+  target: SearchTarget;
+  indexTitle?: boolean; // Defaults to true; chat messages show their thread's title without being matched on it
+}
+
+export type LiveVideoSource = 'camera' | 'screen';
+
+// How shared video is sampled before it is streamed to the model
+export interface LiveVideoSettings {
+  frameRate: number; // Frames per second
+  maxWidth: number; // Larger frames are scaled down to this width
+}
+
+// Taken by the model with the take_note tool during a Live call
+export interface SavedNote {
+  id: string;
+  text: string;
+  timestamp: number;
+}
+
+export interface SavedTranscript {
+  id: string;
+  title: string;
+  text: string;
+  source: 'file' | 'live' | 'voiceChat'; // voiceChat: a Live mode call, with both sides in `turns`
+  timestamp: number;
+  turns?: LiveTranscriptEntry[];
+}
+
+// One stretch of speech in a Live call, built up from streamed transcription chunks
+export interface LiveTranscriptEntry {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number; // When the first chunk arrived
+  interrupted?: boolean; // The user talked over this model reply and its playback was cut short
+  typed?: boolean; // Sent from the text box rather than spoken
+}
+
+// Audio of a Live call: microphone and model voice mixed onto one timeline
+export interface LiveRecording {
+  id: string;
+  title: string;
+  createdAt: number;
+  durationMs: number;
+  transcriptId?: string; // Transcript saved for the same call
+  wav: Blob;
+  webm?: Blob; // Opus copy, when the browser's MediaRecorder supports it
+}
+
 // NEW: Merge Simulator specific types
 export interface MergeSimulationResponse {
   status?: string;
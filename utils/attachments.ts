@@ -0,0 +1,104 @@
+import { AttachmentKind, ChatAttachment } from '../types';
+import { blobToBase64 } from '../services/audio';
+
+// Gemini accepts up to 20 MB of inline data per request
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+export const MAX_TOTAL_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'xml', 'yaml', 'yml', 'toml', 'ini', 'log',
+  'js', 'jsx', 'ts', 'tsx', 'py', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cs', 'go', 'rs', 'rb', 'php',
+  'swift', 'sql', 'sh', 'bash', 'html', 'css', 'scss',
+];
+
+// Value for the file input's `accept` attribute
+export const ACCEPTED_FILE_TYPES = [
+  'application/pdf',
+  ...IMAGE_MIME_TYPES,
+  'text/*',
+  'application/json',
+  ...TEXT_EXTENSIONS.map(ext => `.${ext}`),
+].join(',');
+
+// The document library indexes text only, so images are left out
+export const ACCEPTED_DOCUMENT_TYPES = [
+  'application/pdf',
+  'text/*',
+  'application/json',
+  ...TEXT_EXTENSIONS.map(ext => `.${ext}`),
+].join(',');
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+export const classifyFile = (file: File): AttachmentKind | null => {
+  if (file.type === 'application/pdf') return 'pdf';
+  if (IMAGE_MIME_TYPES.includes(file.type)) return 'image';
+  if (file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.includes(extensionOf(file.name))) {
+    return 'text';
+  }
+  return null;
+};
+
+export type AttachmentRejection = 'unsupportedType' | 'fileTooLarge' | 'totalTooLarge' | 'tooManyFiles';
+
+/**
+ * Splits candidate files into the ones that can be attached next to `current`
+ * and the reasons the others were turned away.
+ */
+export const validateAttachments = (
+  current: File[],
+  candidates: File[]
+): { accepted: File[]; rejected: { file: File; reason: AttachmentRejection }[] } => {
+  const accepted: File[] = [];
+  const rejected: { file: File; reason: AttachmentRejection }[] = [];
+  let totalBytes = current.reduce((sum, file) => sum + file.size, 0);
+
+  for (const file of candidates) {
+    if (!classifyFile(file)) {
+      rejected.push({ file, reason: 'unsupportedType' });
+    } else if (file.size > MAX_ATTACHMENT_BYTES) {
+      rejected.push({ file, reason: 'fileTooLarge' });
+    } else if (current.length + accepted.length >= MAX_ATTACHMENTS_PER_MESSAGE) {
+      rejected.push({ file, reason: 'tooManyFiles' });
+    } else if (totalBytes + file.size > MAX_TOTAL_ATTACHMENT_BYTES) {
+      rejected.push({ file, reason: 'totalTooLarge' });
+    } else {
+      accepted.push(file);
+      totalBytes += file.size;
+    }
+  }
+
+  return { accepted, rejected };
+};
+
+export const readAttachment = async (file: File): Promise<ChatAttachment> => {
+  const kind = classifyFile(file) || 'text';
+  return {
+    name: file.name || `pasted-${Date.now()}`,
+    kind,
+    // Source files often arrive with an empty or vendor-specific MIME type
+    mimeType: kind === 'text' ? file.type || 'text/plain' : file.type,
+    size: file.size,
+    data: await blobToBase64(file),
+  };
+};
+
+export const decodeBase64Text = (data: string): string => {
+  const binary = window.atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+};
+
+export const attachmentDataUrl = (attachment: ChatAttachment) => `data:${attachment.mimeType};base64,${attachment.data}`;
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
@@ -0,0 +1,56 @@
+import { tokenize } from './tokenizer';
+
+// Okapi BM25 ranking for the document library and global search.
+
+export interface RankedResult<T> {
+  item: T;
+  score: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+export const inverseDocumentFrequency = (documentCount: number, documentFrequency: number) =>
+  Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+/** Contribution of one query term occurring `tf` times in a document of `length` terms. */
+export const termScore = (tf: number, idf: number, length: number, averageLength: number) =>
+  idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / averageLength));
+
+/** Scores `items` against `query` with Okapi BM25 and returns the best matches, highest first. */
+export const rankBm25 = <T>(
+  query: string,
+  items: T[],
+  getText: (item: T) => string,
+  limit: number
+): RankedResult<T>[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || items.length === 0) return [];
+
+  const documents = items.map(item => {
+    const terms = tokenize(getText(item));
+    const frequencies = new Map<string, number>();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    return { item, length: terms.length, frequencies };
+  });
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const df = documents.filter(doc => doc.frequencies.has(term)).length;
+    return [term, inverseDocumentFrequency(documents.length, df)];
+  }));
+
+  return documents
+    .map(doc => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.frequencies.get(term);
+        if (!tf) continue;
+        score += termScore(tf, idf.get(term)!, doc.length, averageLength);
+      }
+      return { item: doc.item, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
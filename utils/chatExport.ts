@@ -0,0 +1,298 @@
+import { AttachmentKind, ChatAttachment, ChatCitation, ChatMessage, Conversation, Sender, ToolInvocation } from '../types';
+import { getActivePath, normalizeMessageTree } from './messageTree';
+import { formatFileSize } from './attachments';
+
+export const CHAT_EXPORT_FORMAT = 'gen-aethe-vivens-chat';
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ChatExportKind = 'markdown' | 'html' | 'json';
+
+// Versioned on-disk shape; bump CHAT_EXPORT_VERSION when it changes and keep parseChatExport able to read older files
+export interface ChatExportFile {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  conversation: {
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    messages: ChatMessage[];
+    selectedBranches: Record<string, string>;
+  };
+}
+
+export interface ImportedConversation {
+  title: string;
+  messages: ChatMessage[];
+  selectedBranches: Record<string, string>;
+}
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const roleLabel = (msg: ChatMessage) => (msg.role === Sender.User ? 'User' : 'Gemini');
+
+// Transient UI flags are dropped so an exported thread never reloads with a spinner
+const cleanMessage = ({ isThinking, isStreaming, ...msg }: ChatMessage): ChatMessage => msg;
+
+const exportableMessages = (conversation: Conversation) =>
+  getActivePath(normalizeMessageTree(conversation.messages), conversation.selectedBranches || {})
+    .filter(msg => !msg.isThinking);
+
+const describeMessageMeta = (msg: ChatMessage): string[] => {
+  const meta = [formatTimestamp(msg.timestamp)];
+  if (msg.thinkingMode) meta.push(`thinking mode (budget ${msg.thinkingBudget ?? 'default'})`);
+  if (msg.interrupted) meta.push('interrupted');
+  if (msg.isError) meta.push('error');
+  return meta;
+};
+
+const describeAttachment = (attachment: ChatAttachment) =>
+  `${attachment.name} (${attachment.mimeType}, ${formatFileSize(attachment.size)})`;
+
+export const conversationToMarkdown = (conversation: Conversation): string => {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `_Created ${formatTimestamp(conversation.createdAt)} · Exported ${formatTimestamp(Date.now())}_`,
+    '',
+  ];
+
+  for (const msg of exportableMessages(conversation)) {
+    lines.push(`## ${roleLabel(msg)}`, '', `_${describeMessageMeta(msg).join(' · ')}_`, '');
+    if (msg.attachments?.length) lines.push(`> Attachments: ${msg.attachments.map(describeAttachment).join(', ')}`, '');
+    lines.push(msg.text, '');
+  }
+
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const conversationToHtml = (conversation: Conversation): string => {
+  const body = exportableMessages(conversation).map(msg => `
+    <article class="msg ${msg.role}">
+      <header><strong>${roleLabel(msg)}</strong> <span>${escapeHtml(describeMessageMeta(msg).join(' · '))}</span></header>
+      ${(msg.attachments || []).map(attachment => `<p class="attachment">📎 ${escapeHtml(describeAttachment(attachment))}</p>`).join('')}
+      <div class="text">${escapeHtml(msg.text)}</div>
+    </article>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(conversation.title)}</title>
+<style>
+  body { font-family: 'Inter', 'Sarabun', sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1e293b; background: #f8fafc; }
+  h1 { font-size: 1.5rem; }
+  .meta { color: #64748b; font-size: 0.8rem; }
+  .msg { background: #fff; border: 1px solid #e2e8f0; border-radius: 1rem; padding: 0.75rem 1rem; margin: 1rem 0; }
+  .msg.user { background: #1e293b; color: #fff; border-color: transparent; }
+  .msg header { font-size: 0.75rem; margin-bottom: 0.5rem; opacity: 0.8; }
+  .msg header span { margin-left: 0.5rem; }
+  .attachment { font-size: 0.8rem; opacity: 0.8; }
+  .text { white-space: pre-wrap; line-height: 1.6; font-size: 0.9rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">Created ${escapeHtml(formatTimestamp(conversation.createdAt))} · Exported ${escapeHtml(formatTimestamp(Date.now()))}</p>
+${body}
+</body>
+</html>
+`;
+};
+
+export const conversationToJson = (conversation: Conversation): string => {
+  const file: ChatExportFile = {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    conversation: {
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      messages: normalizeMessageTree(conversation.messages).map(cleanMessage),
+      selectedBranches: conversation.selectedBranches || {},
+    },
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+type JsonObject = Record<string, unknown>;
+
+const ATTACHMENT_KINDS: AttachmentKind[] = ['image', 'pdf', 'text'];
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optional = <T>(value: unknown, type: 'string' | 'number' | 'boolean'): T | undefined =>
+  typeof value === type ? value as T : undefined;
+
+// Keeps the entries of an optional array that parse; anything that is not an array is dropped
+const parseList = <T>(value: unknown, parse: (item: unknown) => T | null): T[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const items = value.map(parse).filter((item): item is T => item !== null);
+  return items.length > 0 ? items : undefined;
+};
+
+const parseAttachment = (value: unknown): ChatAttachment | null => {
+  if (!isObject(value)) return null;
+  const { name, kind, mimeType, size, data } = value;
+  if (typeof name !== 'string' || !ATTACHMENT_KINDS.includes(kind as AttachmentKind) || typeof mimeType !== 'string'
+    || typeof size !== 'number' || typeof data !== 'string') {
+    return null;
+  }
+  return { name, kind: kind as AttachmentKind, mimeType, size, data };
+};
+
+// A call still marked running never got a result, so only settled calls are kept
+const parseToolCall = (value: unknown): ToolInvocation | null => {
+  if (!isObject(value)) return null;
+  const { id, name, args, status } = value;
+  if (typeof id !== 'string' || typeof name !== 'string' || !isObject(args) || (status !== 'done' && status !== 'error')) return null;
+  return {
+    id,
+    name,
+    args,
+    status,
+    result: status === 'done' ? value.result : undefined,
+    error: status === 'error' ? String(value.error ?? '') : undefined,
+    thoughtSignature: optional<string>(value.thoughtSignature, 'string'),
+  };
+};
+
+const parseCitation = (value: unknown): ChatCitation | null => {
+  if (!isObject(value)) return null;
+  const { index, documentId, documentName, excerpt } = value;
+  if (typeof index !== 'number' || typeof documentId !== 'string' || typeof documentName !== 'string' || typeof excerpt !== 'string') return null;
+  return { index, documentId, documentName, excerpt, page: optional<number>(value.page, 'number') };
+};
+
+const parseLegacyAttachment = (value: unknown): ChatMessage['attachment'] => {
+  if (!isObject(value) || typeof value.name !== 'string' || typeof value.type !== 'string') return undefined;
+  return {
+    name: value.name,
+    type: value.type,
+    mimeType: optional<string>(value.mimeType, 'string'),
+    data: optional<string>(value.data, 'string'),
+  };
+};
+
+// Copies only the fields a stored message has, each checked; unknown or malformed fields are dropped
+const parseMessage = (value: unknown): ChatMessage | null => {
+  if (!isObject(value)) return null;
+  const { id, parentId, text } = value;
+  if (typeof id !== 'string' || typeof text !== 'string') return null;
+  return {
+    id,
+    parentId: typeof parentId === 'string' ? parentId : parentId === null ? null : undefined,
+    role: value.role === Sender.User ? Sender.User : Sender.Bot,
+    text,
+    timestamp: typeof value.timestamp === 'number' ? value.timestamp : Date.now(),
+    thinkingMode: optional<boolean>(value.thinkingMode, 'boolean'),
+    thinkingBudget: optional<number>(value.thinkingBudget, 'number'),
+    interrupted: optional<boolean>(value.interrupted, 'boolean'),
+    isError: optional<boolean>(value.isError, 'boolean'),
+    attachments: parseList(value.attachments, parseAttachment),
+    toolCalls: parseList(value.toolCalls, parseToolCall),
+    citations: parseList(value.citations, parseCitation),
+    attachment: parseLegacyAttachment(value.attachment),
+  };
+};
+
+/**
+ * Reads a JSON export back into a conversation payload. Throws an Error with
+ * a readable message when the file is not a chat export this version understands.
+ */
+export const parseChatExport = (text: string): ImportedConversation => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isObject(data) || data.format !== CHAT_EXPORT_FORMAT) {
+    throw new Error('The file is not a chat export.');
+  }
+  if (typeof data.version !== 'number' || data.version > CHAT_EXPORT_VERSION) {
+    throw new Error(`Unsupported chat export version: ${data.version}.`);
+  }
+
+  const conversation = data.conversation;
+  if (!isObject(conversation) || !Array.isArray(conversation.messages)) {
+    throw new Error('The chat export has no messages.');
+  }
+
+  const messages: ChatMessage[] = [];
+  const ids = new Set<string>();
+  for (const msg of conversation.messages.map(parseMessage)) {
+    if (!msg || ids.has(msg.id)) continue;
+    ids.add(msg.id);
+    messages.push(msg);
+  }
+  // A parent missing from the file would leave the branch unreachable, so it starts the thread instead
+  for (const msg of messages) {
+    if (typeof msg.parentId === 'string' && !ids.has(msg.parentId)) msg.parentId = null;
+  }
+
+  const selectedBranches: Record<string, string> = {};
+  if (isObject(conversation.selectedBranches)) {
+    for (const [parentId, childId] of Object.entries(conversation.selectedBranches)) {
+      if (typeof childId === 'string' && ids.has(childId)) selectedBranches[parentId] = childId;
+    }
+  }
+
+  return {
+    title: typeof conversation.title === 'string' && conversation.title ? conversation.title : 'Imported chat',
+    messages,
+    selectedBranches,
+  };
+};
+
+const EXPORT_MIME_TYPES: Record<ChatExportKind, string> = {
+  markdown: 'text/markdown',
+  html: 'text/html',
+  json: 'application/json',
+};
+
+const EXPORT_EXTENSIONS: Record<ChatExportKind, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+};
+
+const toFileName = (title: string, kind: ChatExportKind) => {
+  const base = title.replace(/[\\/:*?"<>|]+/g, '').trim().replace(/\s+/g, '-').substring(0, 60) || 'chat';
+  return `${base}.${EXPORT_EXTENSIONS[kind]}`;
+};
+
+/** Saves `content` through a temporary download link. */
+export const downloadFile = (content: string, mimeType: string, fileName: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight after click() cancels the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+export const downloadConversation = (conversation: Conversation, kind: ChatExportKind) => {
+  const content = kind === 'markdown'
+    ? conversationToMarkdown(conversation)
+    : kind === 'html'
+      ? conversationToHtml(conversation)
+      : conversationToJson(conversation);
+
+  downloadFile(content, EXPORT_MIME_TYPES[kind], toFileName(conversation.title, kind));
+};
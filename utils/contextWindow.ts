@@ -0,0 +1,59 @@
+import { ChatMessage, ConversationSummary, Sender } from '../types';
+import { estimateMessageTokens, estimateTextTokens } from './tokenEstimate';
+
+// After compaction the verbatim history is cut back to this share of the
+// budget, so a thread is not summarized again on every following turn.
+const KEEP_FRACTION = 0.5;
+
+export interface ContextPlan {
+  summary?: ConversationSummary; // Summary sent in place of the older turns
+  summarizedIds: Set<string>; // Messages on the path covered by `summary`
+  inContext: ChatMessage[]; // Messages sent verbatim, oldest first
+  tokens: number; // Estimated prompt tokens of the summary and `inContext`
+}
+
+// Same entries `toGeminiHistory` skips: they are never sent to the model
+const isReplayed = (msg: ChatMessage) => msg.id !== 'init' && !msg.isThinking && !msg.isError;
+
+/**
+ * Splits a branch (root to leaf) into the part covered by the deepest summary
+ * made on it and the messages still sent verbatim.
+ */
+export const planContext = (path: ChatMessage[], summaries: ConversationSummary[] = []): ContextPlan => {
+  let cutIndex = -1;
+  let summary: ConversationSummary | undefined;
+  for (const candidate of summaries) {
+    const index = path.findIndex(m => m.id === candidate.throughMessageId);
+    if (index > cutIndex) {
+      cutIndex = index;
+      summary = candidate;
+    }
+  }
+
+  const summarizedIds = new Set(path.slice(0, cutIndex + 1).filter(isReplayed).map(m => m.id));
+  const inContext = path.slice(cutIndex + 1).filter(isReplayed);
+  const tokens = (summary ? estimateTextTokens(summary.text) : 0)
+    + inContext.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+
+  return { summary, summarizedIds, inContext, tokens };
+};
+
+/**
+ * Picks the oldest verbatim messages to fold into a new summary when sending
+ * `pendingTokens` more would exceed `budget`. The kept part always starts on a
+ * user turn. Returns null when the history still fits.
+ */
+export const selectMessagesToSummarize = (plan: ContextPlan, budget: number, pendingTokens: number): ChatMessage[] | null => {
+  if (plan.tokens + pendingTokens <= budget || plan.inContext.length === 0) return null;
+
+  const keepTarget = budget * KEEP_FRACTION - pendingTokens;
+  let cut = plan.inContext.length;
+  let kept = 0;
+  while (cut > 0 && kept + estimateMessageTokens(plan.inContext[cut - 1]) <= keepTarget) {
+    cut--;
+    kept += estimateMessageTokens(plan.inContext[cut]);
+  }
+  while (cut < plan.inContext.length && plan.inContext[cut].role !== Sender.User) cut++;
+
+  return cut > 0 ? plan.inContext.slice(0, cut) : null;
+};
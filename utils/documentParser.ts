@@ -0,0 +1,64 @@
+// Turns library files into page-tagged text chunks entirely in the browser.
+
+export interface ParsedPage {
+  page?: number; // 1-based PDF page; unset for text files
+  text: string;
+}
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+
+const extractPdfPages = async (file: Blob): Promise<ParsedPage[]> => {
+  // Loaded on demand: the library is large and only needed when a PDF is added
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: ParsedPage[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')
+        .join('');
+      pages.push({ page: pageNumber, text });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+/** Extracts the text of a PDF per page, or of a text file as a single page. */
+export const extractPages = async (file: Blob, kind: 'pdf' | 'text'): Promise<ParsedPage[]> =>
+  kind === 'pdf' ? extractPdfPages(file) : [{ text: await file.text() }];
+
+/**
+ * Splits each page into overlapping chunks of about CHUNK_SIZE characters,
+ * preferring paragraph, then sentence, then word boundaries. Chunks never span
+ * pages so every citation points at a single page.
+ */
+export const chunkPages = (pages: ParsedPage[]): ParsedPage[] => {
+  const chunks: ParsedPage[] = [];
+
+  for (const { page, text } of pages) {
+    const clean = text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+    let start = 0;
+    while (start < clean.length) {
+      let end = Math.min(start + CHUNK_SIZE, clean.length);
+      if (end < clean.length) {
+        const window = clean.slice(start, end);
+        const breakAt = [window.lastIndexOf('\n\n'), window.search(/[.!?。]\s[^.!?。]*$/), window.lastIndexOf(' ')]
+          .find(index => index > CHUNK_SIZE / 2);
+        if (breakAt !== undefined) end = start + breakAt + 1;
+      }
+      const chunk = clean.slice(start, end).trim();
+      if (chunk) chunks.push({ page, text: chunk });
+      if (end >= clean.length) break;
+      start = Math.max(end - CHUNK_OVERLAP, start + 1);
+    }
+  }
+
+  return chunks;
+};
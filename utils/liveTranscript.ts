@@ -0,0 +1,84 @@
+import { v4 as uuidv4 } from 'uuid';
+import { LiveTranscriptEntry } from '../types';
+import { downloadFile } from './chatExport';
+
+export type LiveTranscriptExportKind = 'markdown' | 'text' | 'json';
+
+const EXPORT_MIME_TYPES: Record<LiveTranscriptExportKind, string> = {
+  markdown: 'text/markdown',
+  text: 'text/plain',
+  json: 'application/json',
+};
+
+const EXPORT_EXTENSIONS: Record<LiveTranscriptExportKind, string> = {
+  markdown: 'md',
+  text: 'txt',
+  json: 'json',
+};
+
+const roleLabel = (entry: LiveTranscriptEntry) => (entry.role === 'user' ? (entry.typed ? 'User (typed)' : 'User') : 'Gemini');
+
+const entryText = (entry: LiveTranscriptEntry) => `${entry.text.trim()}${entry.interrupted ? ' [interrupted]' : ''}`;
+
+/**
+ * Adds a streamed transcription chunk. Chunks extend the last entry while the
+ * same side keeps talking; a change of speaker, a typed entry, or `startsTurn`
+ * after the model finished or was interrupted, starts a new entry.
+ */
+export const appendTranscription = (
+  entries: LiveTranscriptEntry[],
+  role: LiveTranscriptEntry['role'],
+  text: string,
+  timestamp: number,
+  startsTurn = false
+): LiveTranscriptEntry[] => {
+  const last = entries[entries.length - 1];
+  if (last?.role === role && !last.typed && !startsTurn) {
+    return [...entries.slice(0, -1), { ...last, text: last.text + text }];
+  }
+  if (!text.trim()) return entries;
+  return [...entries, { id: uuidv4(), role, text: text.trimStart(), timestamp }];
+};
+
+/** Adds a turn the user typed; it is complete as sent, so speech after it starts a new entry. */
+export const appendTypedTurn = (entries: LiveTranscriptEntry[], text: string, timestamp: number): LiveTranscriptEntry[] =>
+  [...entries, { id: uuidv4(), role: 'user', text, timestamp, typed: true }];
+
+/** Flags the latest model reply as cut off by the user. */
+export const markInterrupted = (entries: LiveTranscriptEntry[]): LiveTranscriptEntry[] => {
+  const last = entries[entries.length - 1];
+  if (last?.role !== 'model') return entries;
+  return [...entries.slice(0, -1), { ...last, interrupted: true }];
+};
+
+/** Time since the call started, as m:ss. */
+export const formatCallOffset = (timestamp: number, startedAt: number) => {
+  const seconds = Math.max(0, Math.floor((timestamp - startedAt) / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const liveTranscriptToText = (entries: LiveTranscriptEntry[]): string => {
+  const startedAt = entries[0]?.timestamp ?? 0;
+  return entries
+    .map(entry => `[${formatCallOffset(entry.timestamp, startedAt)}] ${roleLabel(entry)}: ${entryText(entry)}`)
+    .join('\n');
+};
+
+export const liveTranscriptToMarkdown = (title: string, entries: LiveTranscriptEntry[]): string => {
+  const startedAt = entries[0]?.timestamp ?? 0;
+  const lines = [`# ${title}`, '', `_Call started ${new Date(startedAt).toLocaleString()}_`, ''];
+  for (const entry of entries) {
+    lines.push(`**${roleLabel(entry)}** _(${formatCallOffset(entry.timestamp, startedAt)})_: ${entryText(entry)}`, '');
+  }
+  return lines.join('\n');
+};
+
+export const downloadLiveTranscript = (title: string, entries: LiveTranscriptEntry[], kind: LiveTranscriptExportKind) => {
+  const content = kind === 'markdown'
+    ? liveTranscriptToMarkdown(title, entries)
+    : kind === 'text'
+      ? liveTranscriptToText(entries)
+      : JSON.stringify({ title, exportedAt: Date.now(), turns: entries }, null, 2);
+  const base = title.replace(/[\\/:*?"<>|,]+/g, '').trim().replace(/\s+/g, '-').substring(0, 60) || 'voice-chat';
+  downloadFile(content, EXPORT_MIME_TYPES[kind], `${base}.${EXPORT_EXTENSIONS[kind]}`);
+};
@@ -8,12 +8,37 @@ export const translations = {
        transcribe: "Transcribe",
        codegen: "Codegen",
        mergeSimulator: "Merge Simulator", // NEW
+       usage: "Usage & Cost",
+       search: "Search",
+       mockProvider: "Mock",
+       mockProviderTitle: "Responses come from the offline mock provider (Settings)",
        menuSettings: "Menu Settings", 
        dark: "Dark Mode",
        light: "Light Mode",
        proTitle: "Pro Features",
        proDesc: "Experience the power of Gemini 3.0 Pro for complex reasoning and Native Audio for real-time talk."
     },
+    search: {
+       title: "Search everything",
+       placeholder: "Search chats, transcripts and snippets...",
+       close: "Close",
+       modes: {
+         chat: "Chat",
+         transcribe: "Transcripts",
+         codegen: "Snippets",
+       },
+       dateRanges: {
+         any: "Any time",
+         day: "Past 24 hours",
+         week: "Past week",
+         month: "Past month",
+         year: "Past year",
+       },
+       loading: "Building search index...",
+       hint: "Type to search in Thai or English.",
+       noResults: "No matches found.",
+       keyboardHint: "↑↓ to move · Enter to open · Esc to close",
+    },
     settings: { 
        title: "Settings",
        subtitle: "Configure your application preferences",
@@ -24,19 +49,222 @@ export const translations = {
        about: "About",
        version: "Version 1.0.0 (Beta)",
        developer: "Powered by Google Gemini",
-       voice: "Default Voice"
+       voice: "Default Voice",
+       personas: "Chat Personas",
+       personasDesc: "Reusable system prompts for chat. Each conversation remembers the persona it uses.",
+       addPersona: "Add persona",
+       newPersonaName: "New persona",
+       personaName: "Name",
+       systemPrompt: "System prompt",
+       temperature: "Temperature",
+       defaultThinking: "Start with thinking mode on",
+       deletePersona: "Delete persona",
+       confirmDeletePersona: "Delete this persona? Conversations using it will fall back to the default persona.",
+       defaultPersona: "Default",
+       models: "Models",
+       modelsDesc: "Choose the model and generation parameters for each mode. Leave a field empty to use the model default.",
+       model: "Model",
+       modelDefault: "Default",
+       resetModel: "Reset",
+       modelModes: {
+         chat: "Chat & Reason",
+         live: "Live Voice",
+         transcribe: "Transcribe (audio files)",
+       },
+       modelParameters: {
+         temperature: "Temperature",
+         topP: "Top-p",
+         maxOutputTokens: "Max output tokens",
+         thinkingBudget: "Thinking budget",
+         contextBudget: "Context budget (tokens)",
+       },
+       liveModelHint: "Also used for live transcription.",
+       chatTemperatureHint: "Temperature is set per persona.",
+       modelIssues: {
+         unknownModel: "This model is no longer available.",
+         modelUnsupported: "This model does not support everything this mode needs.",
+         temperatureRange: "Temperature is out of range.",
+         topPRange: "Top-p is out of range.",
+         maxOutputTokensRange: "Max output tokens is out of range for this model.",
+         thinkingBudgetRange: "Thinking budget is out of range for this model.",
+         contextBudgetRange: "Context budget is out of range for this model.",
+       },
+       modelIssuesFallback: "Invalid values are ignored and the mode defaults are used instead.",
+       provider: "AI Provider",
+       providerDesc: "Choose where requests for chat, transcription and live audio go. The mock provider runs in the browser for demos and offline testing.",
+       providers: {
+         gemini: { name: "Google Gemini", desc: "Live API, requires an API key" },
+         mock: { name: "Offline mock", desc: "Scripted responses, no key or network" },
+       },
+       mockSettings: "Mock provider",
+       mockLatency: "Latency (ms)",
+       mockChunkDelay: "Delay between chunks (ms)",
+       mockInjectError: "Inject error",
+       mockNoErrors: "None",
+       mockErrorKinds: {
+         rateLimit: "Rate limit",
+         quota: "Quota exhausted",
+         invalidKey: "Invalid API key",
+         network: "Network failure",
+         safety: "Safety block",
+         contextTooLong: "Context too long",
+         server: "Server unavailable",
+       },
+       mockErrorEvery: "Fail every Nth request",
+       mockRules: "Response rules",
+       mockRulesDesc: "The first rule whose pattern (a case-insensitive regular expression) matches the prompt gives the response.",
+       mockAddRule: "Add rule",
+       mockDeleteRule: "Delete rule",
+       mockPattern: "Pattern, e.g. ^hello",
+       mockResponse: "Response",
+       mockInvalidPattern: "Not a valid regular expression; this rule never matches",
+       mockFallback: "Fallback response ({prompt} inserts the prompt)"
     },
     chat: {
        title: "Gemini Pro Chat",
-       subtitle: "Powered by Gemini 3.0 Pro",
+       subtitle: "Powered by {model}",
        thinkingOn: "Thinking Mode On",
        thinkingOff: "Thinking Mode Off",
-       thinkingActive: "Thinking mode active: Responses may take longer but will be more thorough.",
+       thinkingActive: "Thinking mode active: Responses may take longer but will be more thorough. Earlier messages stay in context.",
        thinkingLoading: "Thinking deeply...",
+       thinkingBudget: "Budget",
+       persona: "Persona",
        placeholder: "Type your message here (Thai or English)...",
        welcome: "Hello! I am Gemini. I can help you with complex tasks, coding, and reasoning in Thai or English.",
        error: "Sorry, I encountered an error processing your request.",
-       pdfName: "PDF Document"
+       requestErrors: {
+         rateLimit: "Gemini is receiving too many requests right now. Please wait a moment and try again.",
+         quota: "Your API quota has run out. Check your plan and billing details, or try again tomorrow.",
+         invalidKey: "The API key is missing or invalid. Please select a valid API key.",
+         network: "Could not reach Gemini. Check your internet connection and try again.",
+         safety: "This response was blocked by the safety filters. Try rephrasing your request.",
+         contextTooLong: "This conversation is too long for the model. Start a new thread or lower the context budget in Settings.",
+         server: "Gemini is temporarily unavailable. Please try again in a few minutes.",
+       },
+       offlineQueued: "You're offline. Your message will be sent when the connection is back.",
+       retrying: "Connection problem, retrying ({attempt}/{max})...",
+       attachmentKinds: {
+         image: "Image",
+         pdf: "PDF Document",
+         text: "Text File",
+       },
+       attachFiles: "Attach images, PDFs or text files",
+       removeAttachment: "Remove attachment",
+       dropFiles: "Drop files to attach",
+       defaultAttachmentPrompt: "Analyze the attached files.",
+       attachmentErrors: {
+         unsupportedType: "Unsupported file type",
+         fileTooLarge: "File is larger than {size}",
+         totalTooLarge: "Attachments exceed {size} in total",
+         tooManyFiles: "At most {count} files per message",
+       },
+       stop: "Stop generating",
+       interrupted: "Response stopped",
+       newThread: "New chat",
+       noThreads: "No conversations yet.",
+       renameThread: "Rename",
+       deleteThread: "Delete",
+       pinThread: "Pin",
+       unpinThread: "Unpin",
+       save: "Save",
+       copy: "Copy",
+       copied: "Copied!",
+       cancel: "Cancel",
+       saveAndSend: "Save & Send",
+       editMessage: "Edit message",
+       regenerate: "Regenerate response",
+       previousBranch: "Previous version",
+       nextBranch: "Next version",
+       exportThread: "Export conversation",
+       exportFormats: {
+         markdown: "Markdown (.md)",
+         html: "HTML page (.html)",
+         json: "JSON (.json)",
+       },
+       importThread: "Import conversation (JSON)",
+       importError: "Could not import this file.",
+       confirmDeleteThread: "Delete this conversation? This action cannot be undone.",
+       deleteThreadFailed: "The conversation could not be deleted. Please try again.",
+       budgetExceeded: {
+         daily: "You have reached today's spending budget. Send anyway?",
+         monthly: "You have reached this month's spending budget. Send anyway?",
+       },
+       tools: "Tools",
+       toolsDesc: "Local tools the model may call in this conversation",
+       toolNames: {
+         calculator: "Calculator",
+         convert_units: "Unit converter",
+         date_math: "Date math",
+         search_saved_content: "Search saved snippets, transcripts & notes",
+       },
+       toolArguments: "Arguments",
+       toolResult: "Result",
+       toolError: "Error",
+       toolRunning: "Running...",
+       library: "Documents",
+       libraryDesc: "PDFs and text files indexed on this device. Relevant passages are added to each message.",
+       libraryEmpty: "No documents in this conversation.",
+       libraryAdd: "Add PDF or text files",
+       libraryIndexing: "Indexing {name}...",
+       libraryStats: "{pages} page(s) · {chunks} passages · {size}",
+       libraryRemove: "Remove document",
+       libraryErrors: {
+         unsupportedType: "Only PDF and text files can be indexed",
+         fileTooLarge: "File is larger than {size}",
+         noText: "No text found (scanned PDFs are not supported)",
+         parseFailed: "Could not read this file",
+       },
+       sources: "Sources",
+       citationPage: "page {page}",
+       citationMissing: "\"{name}\" is no longer in this conversation's documents.",
+       compacting: "Summarizing earlier messages...",
+       contextUsage: "Context",
+       contextUsageTitle: "Estimated tokens sent with the next message, out of the context budget",
+       summaryTitle: "Conversation summary",
+       summaryCovers: "Replaces {count} earlier messages",
+       summarized: "Summarized",
+       inContext: "In context",
+       messageTokens: "~{tokens} tokens",
+    },
+    usage: {
+       title: "Usage & Cost",
+       subtitle: "Token usage recorded from Chat, Live and Transcribe, with estimated cost",
+       today: "Today",
+       thisMonth: "This month",
+       tokens: "tokens",
+       byMode: "By mode (last 30 days)",
+       daily: "Daily totals (last 30 days)",
+       byConversation: "Most expensive conversations",
+       deletedConversation: "(deleted conversation)",
+       noUsage: "No usage recorded yet.",
+       mode: "Mode",
+       modes: {
+         chat: "Chat & Reason",
+         live: "Live Voice",
+         transcribe: "Transcribe",
+       },
+       date: "Date",
+       promptTokens: "Prompt",
+       responseTokens: "Response",
+       thinkingTokens: "Thinking",
+       cost: "Est. cost",
+       budgets: "Budgets",
+       budgetsDesc: "You will be asked to confirm before sending once a limit is reached. Leave empty for no limit.",
+       dailyLimit: "Daily limit (USD)",
+       monthlyLimit: "Monthly limit (USD)",
+       noLimit: "No limit",
+       prices: "Price table",
+       pricesDesc: "USD per 1M tokens. Thinking tokens are billed at the output price. Estimates only; check your billing console for actual charges.",
+       resetPrices: "Reset to list prices",
+       model: "Model",
+       inputPrice: "Input / 1M",
+       outputPrice: "Output / 1M",
+       clear: "Clear usage data",
+       confirmClear: "Delete all recorded usage? This action cannot be undone.",
+       budgetExceeded: {
+         daily: "You have reached today's spending budget. Start anyway?",
+         monthly: "You have reached this month's spending budget. Start anyway?",
+       }
     },
     live: {
        listening: "Listening...",
@@ -46,6 +274,57 @@ export const translations = {
        error: "Connection error. Please try again.",
        footer: "Gemini 2.5 Live Audio (Preview)",
        voiceLabel: "Voice",
+       transcript: "Transcript",
+       transcriptEmpty: "Start speaking. Both sides of the conversation appear here.",
+       transcriptTitle: "Voice chat {date}",
+       transcriptSaved: "Saved to transcript history.",
+       transcriptSaveFailed: "The call transcript could not be saved; browser storage may be full. Export it instead.",
+       you: "You",
+       model: "Gemini",
+       exportTranscript: "Export transcript",
+       exportKinds: { markdown: "MD", text: "TXT", json: "JSON" },
+       interrupted: "Interrupted",
+       micModeLabel: "Microphone mode",
+       micModes: { openMic: "Open mic", pushToTalk: "Push to talk" },
+       sensitivityLabel: "Voice detection sensitivity",
+       sensitivities: { low: "Low sensitivity", medium: "Medium sensitivity", high: "High sensitivity" },
+       holdToTalk: "Hold to talk",
+       talking: "Talking...",
+       pushToTalkHint: "Hold Space or the button to talk",
+       muted: "Microphone muted",
+      reconnecting: "Connection lost. Reconnecting… ({attempt}/{max})",
+      reconnectFailed: "The connection was lost and could not be restored. Please start a new call.",
+      toolNames: {
+        set_timer: "Set timer",
+        list_timers: "List timers",
+        cancel_timer: "Cancel timer",
+        take_note: "Take note",
+      },
+      toolCancelled: "Cancelled by the model",
+      timerFinished: "Timer \"{label}\" finished",
+      dismissAlert: "Dismiss",
+      startVideo: { camera: "Show your camera", screen: "Share your screen" },
+      stopVideo: { camera: "Turn off camera", screen: "Stop sharing" },
+      cameraError: "Could not access the camera. Check your browser permissions.",
+      screenShareError: "Screen sharing was cancelled or is not allowed.",
+      videoFrameRateLabel: "Video frame rate",
+      videoFrameRate: "{rate} fps",
+      videoResolutionLabel: "Video resolution",
+      videoWidth: "{width}px",
+      videoBandwidth: "Video sent to Gemini",
+      videoStarting: "Starting video…",
+      typePlaceholder: "Type a message, link or code…",
+      sendTyped: "Send",
+      typed: "Typed",
+       recordingLabel: "Session recording",
+       recordingModes: { off: "Don't record", wav: "Record WAV", wavAndWebm: "Record WAV + WebM" },
+       recordingActive: "This call is being recorded",
+       recordingFailed: "The call recording could not be saved.",
+       recordings: "Recordings",
+       closeRecordings: "Close",
+       noRecordings: "No recordings yet. Choose a recording option before starting a call.",
+       deleteRecording: "Delete recording",
+       confirmDeleteRecording: "Delete this recording?",
        voices: {
          Puck: "Puck",
          Charon: "Charon",
@@ -56,6 +335,7 @@ export const translations = {
     },
     transcribe: {
        title: "Audio Transcription",
+       saveFailed: "The transcript could not be saved to history; browser storage may be full.",
        desc: "Upload an audio file or stream directly to transcribe speech to text using Gemini.",
        uploadLabel: "Upload Audio File",
        uploadDesc: "MP3, WAV, AAC, etc.",
@@ -65,6 +345,8 @@ export const translations = {
        transcribingBtn: "Transcribing...",
        result: "Transcription Result",
        error: "Failed to transcribe audio. Please try again.",
+       offlineQueued: "Offline, waiting for connection...",
+       retrying: "Retrying ({attempt}/{max})...",
        micError: "Cannot access microphone.",
        copy: "Copy",
        copied: "Copied!"
@@ -145,12 +427,37 @@ export const translations = {
        transcribe: "ถอดความเสียง",
        codegen: "สร้างโค้ด",
        mergeSimulator: "จำลองการผสาน", // NEW
+       usage: "การใช้งานและค่าใช้จ่าย",
+       search: "ค้นหา",
+       mockProvider: "จำลอง",
+       mockProviderTitle: "คำตอบมาจากผู้ให้บริการจำลองแบบออฟไลน์ (การตั้งค่า)",
        menuSettings: "การตั้งค่าเมนู", 
        dark: "โหมดมืด",
        light: "โหมดสว่าง",
        proTitle: "ฟีเจอร์โปร",
        proDesc: "สัมผัสพลังของ Gemini 3.0 Pro สำหรับการให้เหตุผลที่ซับซ้อนและ Native Audio เพื่อการสนทนาแบบเรียลไทม์"
     },
+    search: {
+       title: "ค้นหาทั้งหมด",
+       placeholder: "ค้นหาแชท บทถอดความ และโค้ดที่บันทึกไว้...",
+       close: "ปิด",
+       modes: {
+         chat: "แชท",
+         transcribe: "บทถอดความ",
+         codegen: "โค้ด",
+       },
+       dateRanges: {
+         any: "ทุกช่วงเวลา",
+         day: "24 ชั่วโมงที่ผ่านมา",
+         week: "สัปดาห์ที่ผ่านมา",
+         month: "เดือนที่ผ่านมา",
+         year: "ปีที่ผ่านมา",
+       },
+       loading: "กำลังสร้างดัชนีการค้นหา...",
+       hint: "พิมพ์เพื่อค้นหาเป็นภาษาไทยหรืออังกฤษ",
+       noResults: "ไม่พบผลลัพธ์",
+       keyboardHint: "↑↓ เพื่อเลื่อน · Enter เพื่อเปิด · Esc เพื่อปิด",
+    },
     settings: { 
        title: "การตั้งค่า",
        subtitle: "กำหนดค่าแอปพลิเคชัน",
@@ -161,19 +468,222 @@ export const translations = {
        about: "เกี่ยวกับ",
        version: "เวอร์ชัน 1.0.0 (เบต้า)",
        developer: "ขับเคลื่อนโดย Google Gemini",
-       voice: "เสียงเริ่มต้น"
+       voice: "เสียงเริ่มต้น",
+       personas: "บุคลิกของแชท",
+       personasDesc: "System prompt ที่ใช้ซ้ำได้สำหรับแชท แต่ละบทสนทนาจะจดจำบุคลิกที่ใช้อยู่",
+       addPersona: "เพิ่มบุคลิก",
+       newPersonaName: "บุคลิกใหม่",
+       personaName: "ชื่อ",
+       systemPrompt: "System prompt",
+       temperature: "Temperature",
+       defaultThinking: "เริ่มต้นด้วยโหมดคิดวิเคราะห์",
+       deletePersona: "ลบบุคลิก",
+       confirmDeletePersona: "ลบบุคลิกนี้หรือไม่? บทสนทนาที่ใช้บุคลิกนี้จะกลับไปใช้บุคลิกเริ่มต้น",
+       defaultPersona: "ค่าเริ่มต้น",
+       models: "โมเดล",
+       modelsDesc: "เลือกโมเดลและพารามิเตอร์การสร้างข้อความสำหรับแต่ละโหมด เว้นว่างไว้เพื่อใช้ค่าเริ่มต้นของโมเดล",
+       model: "โมเดล",
+       modelDefault: "ค่าเริ่มต้น",
+       resetModel: "รีเซ็ต",
+       modelModes: {
+         chat: "แชทและการให้เหตุผล",
+         live: "สนทนาด้วยเสียงสด",
+         transcribe: "ถอดความ (ไฟล์เสียง)",
+       },
+       modelParameters: {
+         temperature: "Temperature",
+         topP: "Top-p",
+         maxOutputTokens: "จำนวนโทเค็นเอาต์พุตสูงสุด",
+         thinkingBudget: "งบการคิด",
+         contextBudget: "งบบริบท (โทเค็น)",
+       },
+       liveModelHint: "ใช้สำหรับการถอดความแบบสดด้วย",
+       chatTemperatureHint: "Temperature กำหนดแยกตามบุคลิก",
+       modelIssues: {
+         unknownModel: "โมเดลนี้ไม่มีให้ใช้งานแล้ว",
+         modelUnsupported: "โมเดลนี้ไม่รองรับความสามารถที่โหมดนี้ต้องการทั้งหมด",
+         temperatureRange: "Temperature อยู่นอกช่วงที่กำหนด",
+         topPRange: "Top-p อยู่นอกช่วงที่กำหนด",
+         maxOutputTokensRange: "จำนวนโทเค็นเอาต์พุตสูงสุดอยู่นอกช่วงของโมเดลนี้",
+         thinkingBudgetRange: "งบการคิดอยู่นอกช่วงของโมเดลนี้",
+         contextBudgetRange: "งบบริบทอยู่นอกช่วงของโมเดลนี้",
+       },
+       modelIssuesFallback: "ค่าที่ไม่ถูกต้องจะถูกละเว้นและใช้ค่าเริ่มต้นของโหมดแทน",
+       provider: "ผู้ให้บริการ AI",
+       providerDesc: "เลือกปลายทางของคำขอสำหรับแชท การถอดความ และเสียงสด ผู้ให้บริการจำลองทำงานในเบราว์เซอร์สำหรับการสาธิตและการทดสอบแบบออฟไลน์",
+       providers: {
+         gemini: { name: "Google Gemini", desc: "API จริง ต้องใช้ API Key" },
+         mock: { name: "จำลองแบบออฟไลน์", desc: "คำตอบตามสคริปต์ ไม่ต้องใช้คีย์หรือเครือข่าย" },
+       },
+       mockSettings: "ผู้ให้บริการจำลอง",
+       mockLatency: "ความหน่วง (มิลลิวินาที)",
+       mockChunkDelay: "หน่วงระหว่างแต่ละส่วน (มิลลิวินาที)",
+       mockInjectError: "จำลองข้อผิดพลาด",
+       mockNoErrors: "ไม่มี",
+       mockErrorKinds: {
+         rateLimit: "จำกัดอัตราคำขอ",
+         quota: "โควตาหมด",
+         invalidKey: "API Key ไม่ถูกต้อง",
+         network: "เครือข่ายล้มเหลว",
+         safety: "ถูกบล็อกด้านความปลอดภัย",
+         contextTooLong: "บริบทยาวเกินไป",
+         server: "เซิร์ฟเวอร์ไม่พร้อมใช้งาน",
+       },
+       mockErrorEvery: "ล้มเหลวทุกคำขอที่ N",
+       mockRules: "กฎการตอบ",
+       mockRulesDesc: "กฎแรกที่รูปแบบ (นิพจน์ทั่วไปแบบไม่สนตัวพิมพ์) ตรงกับข้อความจะเป็นผู้กำหนดคำตอบ",
+       mockAddRule: "เพิ่มกฎ",
+       mockDeleteRule: "ลบกฎ",
+       mockPattern: "รูปแบบ เช่น ^สวัสดี",
+       mockResponse: "คำตอบ",
+       mockInvalidPattern: "นิพจน์ทั่วไปไม่ถูกต้อง กฎนี้จะไม่ถูกใช้",
+       mockFallback: "คำตอบสำรอง ({prompt} แทนด้วยข้อความที่ส่ง)"
     },
     chat: {
        title: "แชท Gemini Pro",
-       subtitle: "ขับเคลื่อนโดย Gemini 3.0 Pro",
+       subtitle: "ขับเคลื่อนโดย {model}",
        thinkingOn: "โหมดคิดวิเคราะห์: เปิด",
        thinkingOff: "โหมดคิดวิเคราะห์: ปิด",
-       thinkingActive: "โหมดคิดวิเคราะห์ทำงานอยู่: การตอบกลับอาจใช้เวลานานขึ้นแต่จะละเอียดรอบคอบกว่า",
+       thinkingActive: "โหมดคิดวิเคราะห์ทำงานอยู่: การตอบกลับอาจใช้เวลานานขึ้นแต่จะละเอียดรอบคอบกว่า ข้อความก่อนหน้ายังคงอยู่ในบริบท",
        thinkingLoading: "กำลังคิดวิเคราะห์อย่างลึกซึ้ง...",
+       thinkingBudget: "งบการคิด",
+       persona: "บุคลิก",
        placeholder: "พิมพ์ข้อความของคุณที่นี่ (ไทย หรือ อังกฤษ)...",
        welcome: "สวัสดี! ฉันคือ Gemini ฉันสามารถช่วยคุณในงานที่ซับซ้อน การเขียนโค้ด และการให้เหตุผล ทั้งในภาษาไทยและภาษาอังกฤษ",
        error: "ขออภัย เกิดข้อผิดพลาดในการประมวลผลคำขอของคุณ",
-       pdfName: "เอกสาร PDF"
+       requestErrors: {
+         rateLimit: "ขณะนี้ Gemini ได้รับคำขอมากเกินไป โปรดรอสักครู่แล้วลองอีกครั้ง",
+         quota: "โควตา API ของคุณหมดแล้ว โปรดตรวจสอบแพ็กเกจและการเรียกเก็บเงิน หรือลองใหม่พรุ่งนี้",
+         invalidKey: "ไม่พบ API Key หรือ API Key ไม่ถูกต้อง โปรดเลือก API Key ที่ถูกต้อง",
+         network: "ไม่สามารถเชื่อมต่อกับ Gemini ได้ โปรดตรวจสอบการเชื่อมต่ออินเทอร์เน็ตแล้วลองอีกครั้ง",
+         safety: "คำตอบนี้ถูกบล็อกโดยตัวกรองความปลอดภัย โปรดลองเรียบเรียงคำขอใหม่",
+         contextTooLong: "บทสนทนานี้ยาวเกินกว่าที่โมเดลรองรับ โปรดเริ่มเธรดใหม่หรือลดงบประมาณบริบทในการตั้งค่า",
+         server: "Gemini ไม่พร้อมใช้งานชั่วคราว โปรดลองอีกครั้งในอีกไม่กี่นาที",
+       },
+       offlineQueued: "คุณออฟไลน์อยู่ ข้อความจะถูกส่งเมื่อกลับมาเชื่อมต่อได้",
+       retrying: "การเชื่อมต่อมีปัญหา กำลังลองใหม่ ({attempt}/{max})...",
+       attachmentKinds: {
+         image: "รูปภาพ",
+         pdf: "เอกสาร PDF",
+         text: "ไฟล์ข้อความ",
+       },
+       attachFiles: "แนบรูปภาพ PDF หรือไฟล์ข้อความ",
+       removeAttachment: "นำไฟล์แนบออก",
+       dropFiles: "วางไฟล์เพื่อแนบ",
+       defaultAttachmentPrompt: "วิเคราะห์ไฟล์ที่แนบมา",
+       attachmentErrors: {
+         unsupportedType: "ไม่รองรับไฟล์ประเภทนี้",
+         fileTooLarge: "ไฟล์มีขนาดใหญ่กว่า {size}",
+         totalTooLarge: "ไฟล์แนบรวมกันเกิน {size}",
+         tooManyFiles: "แนบได้สูงสุด {count} ไฟล์ต่อข้อความ",
+       },
+       stop: "หยุดการสร้างคำตอบ",
+       interrupted: "หยุดการตอบกลับแล้ว",
+       newThread: "แชทใหม่",
+       noThreads: "ยังไม่มีบทสนทนา",
+       renameThread: "เปลี่ยนชื่อ",
+       deleteThread: "ลบ",
+       pinThread: "ปักหมุด",
+       unpinThread: "เลิกปักหมุด",
+       save: "บันทึก",
+       copy: "คัดลอก",
+       copied: "คัดลอกแล้ว!",
+       cancel: "ยกเลิก",
+       saveAndSend: "บันทึกและส่ง",
+       editMessage: "แก้ไขข้อความ",
+       regenerate: "สร้างคำตอบใหม่",
+       previousBranch: "เวอร์ชันก่อนหน้า",
+       nextBranch: "เวอร์ชันถัดไป",
+       exportThread: "ส่งออกบทสนทนา",
+       exportFormats: {
+         markdown: "Markdown (.md)",
+         html: "หน้า HTML (.html)",
+         json: "JSON (.json)",
+       },
+       importThread: "นำเข้าบทสนทนา (JSON)",
+       importError: "ไม่สามารถนำเข้าไฟล์นี้ได้",
+       confirmDeleteThread: "ลบบทสนทนานี้หรือไม่? การดำเนินการนี้ไม่สามารถย้อนกลับได้",
+       deleteThreadFailed: "ไม่สามารถลบบทสนทนาได้ โปรดลองอีกครั้ง",
+       budgetExceeded: {
+         daily: "คุณใช้งบประมาณของวันนี้ครบแล้ว ต้องการส่งต่อหรือไม่?",
+         monthly: "คุณใช้งบประมาณของเดือนนี้ครบแล้ว ต้องการส่งต่อหรือไม่?",
+       },
+       tools: "เครื่องมือ",
+       toolsDesc: "เครื่องมือในเครื่องที่โมเดลเรียกใช้ได้ในบทสนทนานี้",
+       toolNames: {
+         calculator: "เครื่องคิดเลข",
+         convert_units: "แปลงหน่วย",
+         date_math: "คำนวณวันที่",
+         search_saved_content: "ค้นหาโค้ด บทถอดความ และโน้ตที่บันทึกไว้",
+       },
+       toolArguments: "อาร์กิวเมนต์",
+       toolResult: "ผลลัพธ์",
+       toolError: "ข้อผิดพลาด",
+       toolRunning: "กำลังทำงาน...",
+       library: "เอกสาร",
+       libraryDesc: "ไฟล์ PDF และไฟล์ข้อความที่จัดทำดัชนีบนอุปกรณ์นี้ ข้อความที่เกี่ยวข้องจะถูกเพิ่มในแต่ละข้อความ",
+       libraryEmpty: "ยังไม่มีเอกสารในบทสนทนานี้",
+       libraryAdd: "เพิ่มไฟล์ PDF หรือไฟล์ข้อความ",
+       libraryIndexing: "กำลังจัดทำดัชนี {name}...",
+       libraryStats: "{pages} หน้า · {chunks} ส่วน · {size}",
+       libraryRemove: "นำเอกสารออก",
+       libraryErrors: {
+         unsupportedType: "จัดทำดัชนีได้เฉพาะไฟล์ PDF และไฟล์ข้อความ",
+         fileTooLarge: "ไฟล์มีขนาดใหญ่กว่า {size}",
+         noText: "ไม่พบข้อความ (ไม่รองรับ PDF ที่สแกนมา)",
+         parseFailed: "ไม่สามารถอ่านไฟล์นี้ได้",
+       },
+       sources: "แหล่งอ้างอิง",
+       citationPage: "หน้า {page}",
+       citationMissing: "\"{name}\" ไม่อยู่ในเอกสารของบทสนทนานี้แล้ว",
+       compacting: "กำลังสรุปข้อความก่อนหน้า...",
+       contextUsage: "บริบท",
+       contextUsageTitle: "จำนวนโทเค็นโดยประมาณที่จะส่งไปกับข้อความถัดไป เทียบกับงบบริบท",
+       summaryTitle: "สรุปบทสนทนา",
+       summaryCovers: "แทนที่ {count} ข้อความก่อนหน้า",
+       summarized: "สรุปแล้ว",
+       inContext: "อยู่ในบริบท",
+       messageTokens: "~{tokens} โทเค็น",
+    },
+    usage: {
+       title: "การใช้งานและค่าใช้จ่าย",
+       subtitle: "จำนวนโทเค็นที่บันทึกจากแชท สนทนาสด และการถอดความ พร้อมค่าใช้จ่ายโดยประมาณ",
+       today: "วันนี้",
+       thisMonth: "เดือนนี้",
+       tokens: "โทเค็น",
+       byMode: "แยกตามโหมด (30 วันล่าสุด)",
+       daily: "ยอดรวมรายวัน (30 วันล่าสุด)",
+       byConversation: "บทสนทนาที่มีค่าใช้จ่ายสูงสุด",
+       deletedConversation: "(บทสนทนาที่ถูกลบ)",
+       noUsage: "ยังไม่มีการบันทึกการใช้งาน",
+       mode: "โหมด",
+       modes: {
+         chat: "แชทและการให้เหตุผล",
+         live: "สนทนาด้วยเสียงสด",
+         transcribe: "ถอดความ",
+       },
+       date: "วันที่",
+       promptTokens: "พรอมต์",
+       responseTokens: "คำตอบ",
+       thinkingTokens: "การคิด",
+       cost: "ค่าใช้จ่ายโดยประมาณ",
+       budgets: "งบประมาณ",
+       budgetsDesc: "ระบบจะขอให้ยืนยันก่อนส่งเมื่อใช้ถึงขีดจำกัด เว้นว่างไว้หากไม่ต้องการจำกัด",
+       dailyLimit: "ขีดจำกัดรายวัน (USD)",
+       monthlyLimit: "ขีดจำกัดรายเดือน (USD)",
+       noLimit: "ไม่จำกัด",
+       prices: "ตารางราคา",
+       pricesDesc: "USD ต่อ 1 ล้านโทเค็น โทเค็นการคิดคิดราคาเท่ากับเอาต์พุต เป็นค่าประมาณเท่านั้น โปรดตรวจสอบค่าใช้จ่ายจริงในคอนโซลการเรียกเก็บเงิน",
+       resetPrices: "รีเซ็ตเป็นราคามาตรฐาน",
+       model: "โมเดล",
+       inputPrice: "อินพุต / 1M",
+       outputPrice: "เอาต์พุต / 1M",
+       clear: "ล้างข้อมูลการใช้งาน",
+       confirmClear: "ลบข้อมูลการใช้งานที่บันทึกไว้ทั้งหมดหรือไม่? การดำเนินการนี้ไม่สามารถย้อนกลับได้",
+       budgetExceeded: {
+         daily: "คุณใช้งบประมาณของวันนี้ครบแล้ว ต้องการเริ่มต่อหรือไม่?",
+         monthly: "คุณใช้งบประมาณของเดือนนี้ครบแล้ว ต้องการเริ่มต่อหรือไม่?",
+       }
     },
     live: {
        listening: "กำลังฟัง...",
@@ -183,6 +693,57 @@ export const translations = {
        error: "เกิดข้อผิดพลาดในการเชื่อมต่อ โปรดลองอีกครั้ง",
        footer: "Gemini 2.5 Live Audio (ตัวอย่าง)",
        voiceLabel: "เสียง",
+       transcript: "บทสนทนา",
+       transcriptEmpty: "เริ่มพูดได้เลย ข้อความของทั้งสองฝ่ายจะแสดงที่นี่",
+       transcriptTitle: "สนทนาด้วยเสียง {date}",
+       transcriptSaved: "บันทึกลงประวัติการถอดความแล้ว",
+       transcriptSaveFailed: "ไม่สามารถบันทึกบทถอดความของการสนทนาได้ พื้นที่เก็บข้อมูลของเบราว์เซอร์อาจเต็ม โปรดส่งออกไฟล์แทน",
+       you: "คุณ",
+       model: "Gemini",
+       exportTranscript: "ส่งออกบทสนทนา",
+       exportKinds: { markdown: "MD", text: "TXT", json: "JSON" },
+       interrupted: "ถูกขัดจังหวะ",
+       micModeLabel: "โหมดไมโครโฟน",
+       micModes: { openMic: "เปิดไมค์ตลอด", pushToTalk: "กดค้างเพื่อพูด" },
+       sensitivityLabel: "ความไวในการตรวจจับเสียงพูด",
+       sensitivities: { low: "ความไวต่ำ", medium: "ความไวปานกลาง", high: "ความไวสูง" },
+       holdToTalk: "กดค้างเพื่อพูด",
+       talking: "กำลังพูด...",
+       pushToTalkHint: "กด Space หรือปุ่มค้างไว้เพื่อพูด",
+       muted: "ปิดไมโครโฟนอยู่",
+      reconnecting: "การเชื่อมต่อขาดหาย กำลังเชื่อมต่อใหม่… ({attempt}/{max})",
+      reconnectFailed: "การเชื่อมต่อขาดหายและไม่สามารถกู้คืนได้ โปรดเริ่มการสนทนาใหม่",
+      toolNames: {
+        set_timer: "ตั้งเวลา",
+        list_timers: "รายการตัวจับเวลา",
+        cancel_timer: "ยกเลิกตัวจับเวลา",
+        take_note: "จดโน้ต",
+      },
+      toolCancelled: "ถูกยกเลิกโดยโมเดล",
+      timerFinished: "ตัวจับเวลา \"{label}\" หมดเวลาแล้ว",
+      dismissAlert: "ปิด",
+      startVideo: { camera: "เปิดกล้อง", screen: "แชร์หน้าจอ" },
+      stopVideo: { camera: "ปิดกล้อง", screen: "หยุดแชร์หน้าจอ" },
+      cameraError: "ไม่สามารถเข้าถึงกล้องได้ โปรดตรวจสอบสิทธิ์ของเบราว์เซอร์",
+      screenShareError: "การแชร์หน้าจอถูกยกเลิกหรือไม่ได้รับอนุญาต",
+      videoFrameRateLabel: "อัตราเฟรมวิดีโอ",
+      videoFrameRate: "{rate} fps",
+      videoResolutionLabel: "ความละเอียดวิดีโอ",
+      videoWidth: "{width}px",
+      videoBandwidth: "วิดีโอที่ส่งไปยัง Gemini",
+      videoStarting: "กำลังเริ่มวิดีโอ…",
+      typePlaceholder: "พิมพ์ข้อความ ลิงก์ หรือโค้ด…",
+      sendTyped: "ส่ง",
+      typed: "พิมพ์",
+       recordingLabel: "การบันทึกเสียงการสนทนา",
+       recordingModes: { off: "ไม่บันทึก", wav: "บันทึก WAV", wavAndWebm: "บันทึก WAV + WebM" },
+       recordingActive: "กำลังบันทึกเสียงการสนทนานี้",
+       recordingFailed: "ไม่สามารถบันทึกไฟล์เสียงการสนทนาได้",
+       recordings: "ไฟล์บันทึกเสียง",
+       closeRecordings: "ปิด",
+       noRecordings: "ยังไม่มีไฟล์บันทึกเสียง เลือกตัวเลือกการบันทึกก่อนเริ่มการสนทนา",
+       deleteRecording: "ลบไฟล์บันทึกเสียง",
+       confirmDeleteRecording: "ลบไฟล์บันทึกเสียงนี้หรือไม่?",
        voices: {
          Puck: "พัค",
          Charon: "แชรอน",
@@ -193,6 +754,7 @@ export const translations = {
     },
     transcribe: {
        title: "ถอดความเสียง",
+       saveFailed: "ไม่สามารถบันทึกบทถอดความลงในประวัติได้ พื้นที่เก็บข้อมูลของเบราว์เซอร์อาจเต็ม",
        desc: "อัปโหลดไฟล์เสียงหรือสตรีมสดเพื่อถอดความพูดเป็นข้อความโดยใช้ Gemini",
        uploadLabel: "อัปโหลดไฟล์เสียง",
        uploadDesc: "MP3, WAV, AAC, ฯลฯ",
@@ -202,6 +764,8 @@ export const translations = {
        transcribingBtn: "กำลังถอดความ...",
        result: "ผลลัพธ์การถอดความ",
        error: "ไม่สามารถถอดความเสียงได้ โปรดลองอีกครั้ง",
+       offlineQueued: "ออฟไลน์ กำลังรอการเชื่อมต่อ...",
+       retrying: "กำลังลองใหม่ ({attempt}/{max})...",
        micError: "ไม่สามารถเข้าถึงไมโครโฟนได้",
        copy: "คัดลอก",
        copied: "คัดลอกแล้ว!"
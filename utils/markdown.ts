@@ -0,0 +1,266 @@
+// Minimal Markdown parser for model output. It produces a plain data tree that
+// components/MarkdownRenderer.tsx turns into React elements, so raw HTML in the
+// source is never interpreted - it is shown as text.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'del'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type BlockNode =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'math'; tex: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'table'; header: string[]; align: TableAlign[]; rows: string[][] }
+  | { type: 'hr' };
+
+const FENCE_RE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_RE = /^\s{0,3}>\s?/;
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const MATH_BLOCK_RE = /^\s*\$\$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{1,}:?\s*(\|\s*:?-{1,}:?\s*)*\|?\s*$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const parseAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const startsBlock = (line: string, next?: string) =>
+  FENCE_RE.test(line) ||
+  HEADING_RE.test(line) ||
+  HR_RE.test(line) ||
+  QUOTE_RE.test(line) ||
+  LIST_ITEM_RE.test(line) ||
+  MATH_BLOCK_RE.test(line) ||
+  (line.includes('|') && next !== undefined && TABLE_SEPARATOR_RE.test(next) && next.includes('-'));
+
+export const parseBlocks = (source: string): BlockNode[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code; an unterminated fence (still streaming) runs to the end
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    if (MATH_BLOCK_RE.test(line)) {
+      const rest = line.trim().slice(2);
+      if (rest.endsWith('$$') && rest.length >= 2) {
+        blocks.push({ type: 'math', tex: rest.slice(0, -2).trim() });
+        i++;
+        continue;
+      }
+      const tex: string[] = rest ? [rest] : [];
+      i++;
+      while (i < lines.length && !lines[i].includes('$$')) {
+        tex.push(lines[i]);
+        i++;
+      }
+      if (i < lines.length) {
+        const closing = lines[i].slice(0, lines[i].indexOf('$$')).trim();
+        if (closing) tex.push(closing);
+      }
+      i++;
+      blocks.push({ type: 'math', tex: tex.join('\n').trim() });
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (HR_RE.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE_RE.test(lines[i]) || !startsBlock(lines[i]))) {
+        quoted.push(lines[i].replace(QUOTE_RE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted.join('\n')) });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_RE.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlign);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, index) => cells[index] ?? ''));
+        i++;
+      }
+      blocks.push({ type: 'table', header, align, rows });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM_RE);
+    if (listItem) {
+      const indent = listItem[1].length;
+      const ordered = /\d/.test(listItem[2]);
+      const items: string[][] = [];
+
+      while (i < lines.length) {
+        const current = lines[i];
+        const item = current.match(LIST_ITEM_RE);
+        if (item && item[1].length === indent && /\d/.test(item[2]) === ordered) {
+          items.push([item[3]]);
+          i++;
+          continue;
+        }
+        if (isBlank(current)) {
+          // A blank line ends the list unless the next line continues it
+          const next = lines[i + 1];
+          const nextItem = next?.match(LIST_ITEM_RE);
+          const continues = next !== undefined && !isBlank(next) &&
+            ((nextItem && nextItem[1].length >= indent) || next.search(/\S/) > indent);
+          if (!continues) break;
+          items[items.length - 1].push('');
+          i++;
+          continue;
+        }
+        const currentIndent = current.search(/\S/);
+        if (currentIndent > indent || !startsBlock(current)) {
+          // Nested content or a lazy continuation line of the current item
+          items[items.length - 1].push(current.slice(Math.min(currentIndent, indent + 2)));
+          i++;
+          continue;
+        }
+        break;
+      }
+
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(listItem[2], 10) : 1,
+        items: items.map(itemLines => parseBlocks(itemLines.join('\n'))),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines[i], lines[i + 1]))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+
+  return blocks;
+};
+
+const SAFE_URL_RE = /^(https?:|mailto:|#)/i;
+
+export const isSafeUrl = (url: string) => SAFE_URL_RE.test(url.trim());
+
+// Order matters: escapes and code spans win over everything else, math over emphasis
+const INLINE_SOURCE = [
+  /\\([\\`*_{}[\]()#+\-.!|$~>])/.source,                       // 1: escaped character
+  /(`+)([\s\S]*?[^`])\2(?!`)/.source,                        // 2,3: code span
+  /\$\$([^$]+?)\$\$/.source,                                  // 4: display math written inline
+  /\\\(([\s\S]+?)\\\)/.source,                                 // 5: \( ... \)
+  /\$(?![\s\d])([^$\n]+?)(?<!\s)\$(?!\d)/.source,             // 6: $ ... $
+  /\*\*([\s\S]+?)\*\*/.source,                                // 7: strong
+  /__([\s\S]+?)__/.source,                                    // 8: strong
+  /~~([\s\S]+?)~~/.source,                                    // 9: strikethrough
+  /\*(?!\s)([\s\S]+?)(?<!\s)\*/.source,                       // 10: emphasis
+  /(?<![\w])_(?!\s)([\s\S]+?)(?<!\s)_(?![\w])/.source,        // 11: emphasis
+  /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,          // 12,13: link
+  /(https?:\/\/[^\s<]+[^\s<.,;:!?)\]'"])/.source,             // 14: bare URL
+].join('|');
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  // A fresh regex per call: parseInline recurses, and a shared global regex would share lastIndex
+  const inlineRe = new RegExp(INLINE_SOURCE, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text') {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  while ((match = inlineRe.exec(text)) !== null) {
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = inlineRe.lastIndex;
+
+    if (match[1] !== undefined) pushText(match[1]);
+    else if (match[3] !== undefined) nodes.push({ type: 'code', text: match[3].trim() });
+    else if (match[4] !== undefined) nodes.push({ type: 'math', tex: match[4] });
+    else if (match[5] !== undefined) nodes.push({ type: 'math', tex: match[5] });
+    else if (match[6] !== undefined) nodes.push({ type: 'math', tex: match[6] });
+    else if (match[7] !== undefined) nodes.push({ type: 'strong', children: parseInline(match[7]) });
+    else if (match[8] !== undefined) nodes.push({ type: 'strong', children: parseInline(match[8]) });
+    else if (match[9] !== undefined) nodes.push({ type: 'del', children: parseInline(match[9]) });
+    else if (match[10] !== undefined) nodes.push({ type: 'em', children: parseInline(match[10]) });
+    else if (match[11] !== undefined) nodes.push({ type: 'em', children: parseInline(match[11]) });
+    else if (match[12] !== undefined) {
+      if (isSafeUrl(match[13])) {
+        nodes.push({ type: 'link', href: match[13], children: parseInline(match[12]) });
+      } else {
+        pushText(match[12]);
+      }
+    }
+    else if (match[14] !== undefined) nodes.push({ type: 'link', href: match[14], children: [{ type: 'text', text: match[14] }] });
+  }
+
+  pushText(text.slice(lastIndex));
+  return nodes;
+};
@@ -0,0 +1,180 @@
+// Small recursive-descent evaluator for the calculator tool. It only knows
+// numbers, arithmetic operators, parentheses and a fixed set of functions and
+// constants, so model-supplied input is never handed to `eval`.
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  round: (value, digits = 0) => {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  },
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string };
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+)|([A-Za-z_]\w*)|(\*\*|[-+*/%^(),!]))/y;
+  let index = 0;
+
+  while (index < expression.length) {
+    if (/^\s*$/.test(expression.slice(index))) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) throw new Error(`Unexpected character "${expression[index]}" at position ${index + 1}`);
+    index = pattern.lastIndex;
+
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: parseFloat(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3] });
+  }
+
+  return tokens;
+};
+
+const factorial = (value: number): number => {
+  if (!Number.isInteger(value) || value < 0) throw new Error('Factorial is only defined for non-negative integers');
+  if (value > 170) return Infinity;
+  let result = 1;
+  for (let i = 2; i <= value; i++) result *= i;
+  return result;
+};
+
+/** Evaluates an arithmetic expression such as `2 * (3 + sqrt(16)) ^ 2`. Throws on invalid input. */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.type === 'op' && peek()!.value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}"`);
+    position++;
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[position++].value;
+      const right = parseTerm();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[position++].value;
+      const right = parseUnary();
+      if (op === '*') value *= right;
+      else if (op === '/') value /= right;
+      else value %= right;
+    }
+    return value;
+  };
+
+  // unary := ('-' | '+') unary | power
+  const parseUnary = (): number => {
+    if (isOp('-')) {
+      position++;
+      return -parseUnary();
+    }
+    if (isOp('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := postfix ('^' unary)?   (right-associative)
+  const parsePower = (): number => {
+    const base = parsePostfix();
+    if (isOp('^')) {
+      position++;
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  // postfix := primary '!'*
+  const parsePostfix = (): number => {
+    let value = parsePrimary();
+    while (isOp('!')) {
+      position++;
+      value = factorial(value);
+    }
+    return value;
+  };
+
+  const parsePrimary = (): number => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.type === 'number') {
+      position++;
+      return token.value;
+    }
+
+    if (token.type === 'name') {
+      position++;
+      if (isOp('(')) {
+        const fn = FUNCTIONS[token.value];
+        if (!fn) throw new Error(`Unknown function "${token.value}"`);
+        position++;
+        const args: number[] = [];
+        if (!isOp(')')) {
+          args.push(parseExpression());
+          while (isOp(',')) {
+            position++;
+            args.push(parseExpression());
+          }
+        }
+        expectOp(')');
+        return fn(...args);
+      }
+      if (token.value in CONSTANTS) return CONSTANTS[token.value];
+      throw new Error(`Unknown name "${token.value}"`);
+    }
+
+    if (token.value === '(') {
+      position++;
+      const value = parseExpression();
+      expectOp(')');
+      return value;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}"`);
+  return result;
+};
@@ -0,0 +1,95 @@
+import { ChatMessage } from '../types';
+
+// Key used in the selection map for the top-level (parentless) messages
+export const ROOT_KEY = '__root__';
+
+// Maps a parent message id (or ROOT_KEY) to the id of the child branch currently shown
+export type BranchSelection = Record<string, string>;
+
+const parentKey = (msg: ChatMessage): string => msg.parentId || ROOT_KEY;
+
+export const getChildren = (nodes: ChatMessage[], parentId: string | null | undefined): ChatMessage[] => {
+  const key = parentId || ROOT_KEY;
+  return nodes.filter(node => parentKey(node) === key);
+};
+
+/**
+ * Walks the tree from the root, following the selected child at each level
+ * (or the newest child when nothing is selected), and returns the messages
+ * on that path in conversation order.
+ */
+export const getActivePath = (nodes: ChatMessage[], selection: BranchSelection): ChatMessage[] => {
+  const path: ChatMessage[] = [];
+  let key = ROOT_KEY;
+
+  while (true) {
+    const children = nodes.filter(node => parentKey(node) === key);
+    if (children.length === 0) break;
+    const selected = children.find(child => child.id === selection[key]) || children[children.length - 1];
+    path.push(selected);
+    key = selected.id;
+  }
+
+  return path;
+};
+
+/** Returns the path from the root up to, but not including, the given message. */
+export const getPathBefore = (nodes: ChatMessage[], messageId: string): ChatMessage[] => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const path: ChatMessage[] = [];
+  let current = byId.get(messageId);
+
+  while (current?.parentId) {
+    const parent = byId.get(current.parentId);
+    if (!parent) break;
+    path.unshift(parent);
+    current = parent;
+  }
+
+  return path;
+};
+
+export const getSiblings = (nodes: ChatMessage[], msg: ChatMessage): ChatMessage[] =>
+  nodes.filter(node => parentKey(node) === parentKey(msg));
+
+/** Returns a selection that shows the given message in place of its siblings. */
+export const selectBranch = (selection: BranchSelection, msg: ChatMessage): BranchSelection => ({
+  ...selection,
+  [parentKey(msg)]: msg.id,
+});
+
+// Older threads stored a single PDF as `attachment`; lift it into the `attachments` list
+const migrateAttachment = (node: ChatMessage): ChatMessage => {
+  if (!node.attachment) return node;
+  const { attachment, ...rest } = node;
+  if (!attachment.data || !attachment.mimeType) return rest;
+  return {
+    ...rest,
+    attachments: [
+      ...(rest.attachments || []),
+      {
+        name: attachment.name,
+        kind: attachment.mimeType.startsWith('image/') ? 'image' : attachment.mimeType === 'application/pdf' ? 'pdf' : 'text',
+        mimeType: attachment.mimeType,
+        // Base64 length gives a close enough estimate for display
+        size: Math.floor(attachment.data.length * 3 / 4),
+        data: attachment.data,
+      },
+    ],
+  };
+};
+
+/**
+ * Threads stored before branching existed are flat arrays without parent
+ * links; chain them in order so they load as a single branch. Legacy
+ * single attachments are converted to the list form on the way.
+ */
+export const normalizeMessageTree = (nodes: ChatMessage[]): ChatMessage[] => {
+  const needsMigration = nodes.some(node => node.attachment);
+  const migrated = needsMigration ? nodes.map(migrateAttachment) : nodes;
+  if (migrated.some(node => node.parentId !== undefined)) return migrated;
+  return migrated.map((node, index) => ({
+    ...node,
+    parentId: index === 0 ? null : migrated[index - 1].id,
+  }));
+};
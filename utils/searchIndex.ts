@@ -0,0 +1,113 @@
+import { AppMode, SearchDocument } from '../types';
+import { inverseDocumentFrequency, termScore } from './bm25';
+import { tokenize } from './tokenizer';
+
+// In-memory inverted index for global search. Titles are indexed with the
+// text and weighted up (unless a document opts out), and the last query term
+// also matches as a prefix so results narrow while the user is still typing.
+
+const TITLE_WEIGHT = 3;
+const MAX_PREFIX_EXPANSIONS = 20;
+const EXCERPT_RADIUS = 80;
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  postings: Map<string, Map<number, number>>; // Term -> document index -> weighted frequency
+  lengths: number[];
+  averageLength: number;
+  terms: string[]; // Sorted, for prefix lookups
+}
+
+export interface SearchFilters {
+  modes?: AppMode[]; // Unset or empty means every mode
+  since?: number;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+  excerpt: string;
+}
+
+export const buildSearchIndex = (documents: SearchDocument[]): SearchIndex => {
+  const postings = new Map<string, Map<number, number>>();
+  const lengths: number[] = [];
+
+  documents.forEach((document, index) => {
+    const add = (term: string, weight: number) => {
+      let posting = postings.get(term);
+      if (!posting) postings.set(term, posting = new Map());
+      posting.set(index, (posting.get(index) || 0) + weight);
+    };
+    const titleTerms = document.indexTitle === false ? [] : tokenize(document.title);
+    const textTerms = tokenize(document.text);
+    titleTerms.forEach(term => add(term, TITLE_WEIGHT));
+    textTerms.forEach(term => add(term, 1));
+    lengths.push(titleTerms.length + textTerms.length);
+  });
+
+  return {
+    documents,
+    postings,
+    lengths,
+    averageLength: lengths.reduce((sum, length) => sum + length, 0) / (lengths.length || 1) || 1,
+    terms: Array.from(postings.keys()).sort(),
+  };
+};
+
+// Index terms starting with `prefix`, found by binary search in the sorted term list
+const expandPrefix = (index: SearchIndex, prefix: string): string[] => {
+  let low = 0;
+  let high = index.terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index.terms[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  const matches: string[] = [];
+  for (let i = low; i < index.terms.length && index.terms[i].startsWith(prefix) && matches.length < MAX_PREFIX_EXPANSIONS; i++) {
+    matches.push(index.terms[i]);
+  }
+  return matches;
+};
+
+const buildExcerpt = (text: string, needles: string[]): string => {
+  const lower = text.toLowerCase();
+  const positions = needles.map(needle => lower.indexOf(needle)).filter(position => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - EXCERPT_RADIUS);
+  const end = Math.min(text.length, first + EXCERPT_RADIUS * 2);
+  return (start > 0 ? '…' : '') + text.slice(start, end).replace(/\s+/g, ' ').trim() + (end < text.length ? '…' : '');
+};
+
+/** Ranks indexed documents against `query` with BM25, after applying the filters. */
+export const searchIndex = (index: SearchIndex, query: string, filters: SearchFilters = {}, limit = 50): SearchHit[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+
+  // Each query term is a group of index terms; the last one may still be incomplete
+  const groups = queryTerms.map((term, i) => {
+    const expanded = i === queryTerms.length - 1 ? expandPrefix(index, term) : [];
+    return Array.from(new Set([term, ...expanded])).filter(t => index.postings.has(t));
+  });
+
+  const scores = new Map<number, number>();
+  for (const group of groups) {
+    for (const term of group) {
+      const posting = index.postings.get(term)!;
+      const idf = inverseDocumentFrequency(index.documents.length, posting.size);
+      posting.forEach((tf, docIndex) => {
+        const score = termScore(tf, idf, index.lengths[docIndex], index.averageLength);
+        scores.set(docIndex, (scores.get(docIndex) || 0) + score);
+      });
+    }
+  }
+
+  const modes = filters.modes?.length ? filters.modes : null;
+  return Array.from(scores.entries())
+    .map(([docIndex, score]) => ({ document: index.documents[docIndex], score }))
+    .filter(({ document }) => (!modes || modes.includes(document.mode)) && (!filters.since || document.timestamp >= filters.since))
+    .sort((a, b) => b.score - a.score || b.document.timestamp - a.document.timestamp)
+    .slice(0, limit)
+    .map(hit => ({ ...hit, excerpt: buildExcerpt(hit.document.text, queryTerms) }));
+};
@@ -0,0 +1,136 @@
+// Lightweight regex tokenizer for code blocks. It does not aim to be a full
+// grammar - only to colour comments, strings, numbers and keywords for the
+// languages the model writes most often.
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal';
+
+export interface CodeToken {
+  type: TokenType;
+  text: string;
+}
+
+type CommentStyle = 'slash' | 'hash' | 'dash';
+
+interface LanguageSpec {
+  comments: CommentStyle[];
+  keywords: string[];
+  literals: string[];
+}
+
+const C_FAMILY_LITERALS = ['true', 'false', 'null', 'undefined', 'NaN', 'this', 'nil', 'None', 'True', 'False'];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  typescript: {
+    comments: ['slash'],
+    keywords: ['abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'static', 'super', 'switch', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'yield'],
+    literals: C_FAMILY_LITERALS,
+  },
+  python: {
+    comments: ['hash'],
+    keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield', 'print'],
+    literals: ['True', 'False', 'None'],
+  },
+  c: {
+    comments: ['slash'],
+    keywords: ['auto', 'break', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default', 'delete', 'do', 'double', 'else', 'enum', 'extends', 'final', 'float', 'for', 'fn', 'func', 'go', 'if', 'impl', 'implements', 'import', 'int', 'interface', 'let', 'long', 'match', 'mut', 'namespace', 'new', 'package', 'private', 'protected', 'pub', 'public', 'return', 'short', 'static', 'struct', 'switch', 'template', 'throw', 'throws', 'try', 'typedef', 'union', 'unsigned', 'use', 'using', 'var', 'virtual', 'void', 'while'],
+    literals: C_FAMILY_LITERALS,
+  },
+  shell: {
+    comments: ['hash'],
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'return', 'then', 'while', 'cd', 'sudo'],
+    literals: ['true', 'false'],
+  },
+  sql: {
+    comments: ['dash'],
+    keywords: ['select', 'from', 'where', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'table', 'alter', 'drop', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having', 'limit', 'and', 'or', 'not', 'as', 'distinct', 'primary', 'key', 'index', 'union', 'SELECT', 'FROM', 'WHERE', 'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE', 'TABLE', 'ALTER', 'DROP', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'ON', 'GROUP', 'BY', 'ORDER', 'HAVING', 'LIMIT', 'AND', 'OR', 'NOT', 'AS', 'DISTINCT', 'PRIMARY', 'KEY', 'INDEX', 'UNION'],
+    literals: ['NULL', 'null', 'TRUE', 'FALSE', 'true', 'false'],
+  },
+  json: {
+    comments: [],
+    keywords: [],
+    literals: ['true', 'false', 'null'],
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'typescript', javascript: 'typescript', jsx: 'typescript', ts: 'typescript', tsx: 'typescript', typescript: 'typescript', node: 'typescript',
+  py: 'python', python: 'python', python3: 'python',
+  c: 'c', h: 'c', cpp: 'c', 'c++': 'c', cs: 'c', csharp: 'c', java: 'c', kotlin: 'c', go: 'c', golang: 'c', rust: 'c', rs: 'c', swift: 'c', dart: 'c', php: 'c',
+  sh: 'shell', bash: 'shell', shell: 'shell', zsh: 'shell', console: 'shell', yaml: 'shell', yml: 'shell', dockerfile: 'shell', toml: 'shell',
+  sql: 'sql', postgres: 'sql', mysql: 'sql', sqlite: 'sql',
+  json: 'json', jsonc: 'json',
+};
+
+const COMMENT_SOURCES: Record<CommentStyle, string> = {
+  slash: String.raw`\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)`,
+  hash: String.raw`#[^\n]*`,
+  dash: String.raw`--[^\n]*`,
+};
+
+const STRING_SOURCE = String.raw`"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?|\`(?:\\.|[^\`\\])*\`?`;
+const NUMBER_SOURCE = String.raw`\b(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b`;
+const WORD_SOURCE = String.raw`[A-Za-z_$][\w$]*`;
+
+export const resolveLanguage = (language?: string): string | null => {
+  if (!language) return null;
+  return ALIASES[language.toLowerCase()] || null;
+};
+
+/** Best-effort language guess for code that arrives without a fence tag. */
+export const guessLanguage = (code: string): string | null => {
+  if (/^\s*(def |class \w+[:(]|import \w+$|from \w+ import)/m.test(code)) return 'python';
+  if (/^\s*(const|let|function|import .* from|export )/m.test(code)) return 'typescript';
+  if (/^\s*(SELECT|INSERT|UPDATE|CREATE TABLE)\b/im.test(code)) return 'sql';
+  if (/^\s*(#!\/bin\/(ba)?sh|\$ )/m.test(code)) return 'shell';
+  if (/^\s*[{[]/.test(code) && /[}\]]\s*$/.test(code)) return 'json';
+  if (/^\s*(#include|public class|package main|fn main)/m.test(code)) return 'c';
+  return null;
+};
+
+export const tokenizeCode = (code: string, language?: string | null): CodeToken[] => {
+  const resolved = resolveLanguage(language || undefined) || (language && LANGUAGES[language] ? language : null);
+  const spec = resolved ? LANGUAGES[resolved] : null;
+  if (!spec) return [{ type: 'plain', text: code }];
+
+  const commentSource = spec.comments.map(style => COMMENT_SOURCES[style]).join('|');
+  const pattern = new RegExp(
+    [commentSource && `(${commentSource})`, `(${STRING_SOURCE})`, `(${NUMBER_SOURCE})`, `(${WORD_SOURCE})`]
+      .filter(Boolean)
+      .join('|'),
+    'g'
+  );
+  const groupTypes: Array<'comment' | 'string' | 'number' | 'word'> = commentSource
+    ? ['comment', 'string', 'number', 'word']
+    : ['string', 'number', 'word'];
+  const keywords = new Set(spec.keywords);
+  const literals = new Set(spec.literals);
+
+  const tokens: CodeToken[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code)) !== null) {
+    if (match[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match.index > lastIndex) push('plain', code.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    const groupIndex = match.slice(1).findIndex(group => group !== undefined);
+    const kind = groupTypes[groupIndex];
+    if (kind === 'word') {
+      push(keywords.has(match[0]) ? 'keyword' : literals.has(match[0]) ? 'literal' : 'plain', match[0]);
+    } else {
+      push(kind, match[0]);
+    }
+  }
+  if (lastIndex < code.length) push('plain', code.slice(lastIndex));
+
+  return tokens;
+};
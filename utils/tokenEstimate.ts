@@ -0,0 +1,52 @@
+import { ChatMessage } from '../types';
+import { decodeBase64Text } from './attachments';
+
+// Rough token counts for deciding when to compact chat history. Gemini's
+// tokenizer averages about four characters per token for English and code;
+// Thai and other non-Latin scripts take far more tokens per character.
+const CHARS_PER_TOKEN_ASCII = 4;
+const CHARS_PER_TOKEN_OTHER = 1.5;
+
+// Gemini bills an image as a fixed 258 tokens, and each PDF page as an image
+const IMAGE_TOKENS = 258;
+const PDF_BYTES_PER_PAGE = 60 * 1024;
+
+// Role markers and other per-turn framing
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Messages are replaced rather than mutated, so an estimate stays valid for the object's lifetime
+const estimateCache = new WeakMap<ChatMessage, number>();
+
+export const estimateTextTokens = (text: string): number => {
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / CHARS_PER_TOKEN_ASCII + other / CHARS_PER_TOKEN_OTHER);
+};
+
+/** Estimated prompt tokens a stored message costs when its thread is replayed. */
+export const estimateMessageTokens = (msg: ChatMessage): number => {
+  const cached = estimateCache.get(msg);
+  if (cached !== undefined) return cached;
+
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(msg.text);
+
+  for (const attachment of msg.attachments || []) {
+    if (attachment.kind === 'image') tokens += IMAGE_TOKENS;
+    else if (attachment.kind === 'pdf') tokens += IMAGE_TOKENS * Math.max(1, Math.ceil(attachment.size / PDF_BYTES_PER_PAGE));
+    else tokens += estimateTextTokens(decodeBase64Text(attachment.data));
+  }
+
+  for (const call of msg.toolCalls || []) {
+    tokens += estimateTextTokens(JSON.stringify(call.args) + JSON.stringify(call.result ?? call.error ?? ''));
+  }
+
+  estimateCache.set(msg, tokens);
+  return tokens;
+};
+
+export const formatTokenCount = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}k` : String(tokens);
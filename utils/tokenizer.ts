@@ -0,0 +1,42 @@
+// Search terms for Thai and English text. Tokenizing uses the browser's word
+// segmenter where available, which splits Thai (written without spaces) into
+// words; otherwise Thai runs fall back to character bigrams so they still
+// match partially.
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'of', 'on',
+  'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with',
+]);
+
+const THAI_RUN = /[฀-๿]+/;
+
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter('th', { granularity: 'word' })
+  : null;
+
+const bigrams = (run: string): string[] => {
+  if (run.length < 2) return [run];
+  const grams: string[] = [];
+  for (let i = 0; i < run.length - 1; i++) grams.push(run.slice(i, i + 2));
+  return grams;
+};
+
+/** Lower-cased search terms for Thai and English text, without common English stop words. */
+export const tokenize = (text: string): string[] => {
+  const normalized = text.normalize('NFKC').toLowerCase();
+  const words: string[] = [];
+
+  if (segmenter) {
+    for (const segment of segmenter.segment(normalized)) {
+      if (segment.isWordLike) words.push(segment.segment);
+    }
+  } else {
+    for (const word of normalized.split(/[^\p{L}\p{N}\p{M}]+/u)) {
+      if (!word) continue;
+      if (THAI_RUN.test(word)) words.push(...word.split(/([฀-๿]+)/).flatMap(part => THAI_RUN.test(part) ? bigrams(part) : part ? [part] : []));
+      else words.push(word);
+    }
+  }
+
+  return words.filter(word => !STOP_WORDS.has(word));
+};
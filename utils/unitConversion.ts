@@ -0,0 +1,88 @@
+// Unit tables for the unit conversion tool. Every unit in a category is stored
+// as its factor to the category's base unit; temperature is the exception and
+// is converted through Celsius.
+
+const CATEGORIES: Record<string, Record<string, number>> = {
+  length: {
+    mm: 0.001, cm: 0.01, m: 1, km: 1000,
+    in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344, nmi: 1852,
+    wa: 2, sok: 0.5, // Thai units: 1 wa = 2 m, 1 sok = 50 cm
+  },
+  mass: {
+    mg: 0.000001, g: 0.001, kg: 1, t: 1000,
+    oz: 0.028349523125, lb: 0.45359237, st: 6.35029318,
+    baht: 0.015244, // Thai gold weight
+  },
+  volume: {
+    ml: 0.001, l: 1, m3: 1000,
+    tsp: 0.00492892, tbsp: 0.0147868, cup: 0.236588, floz: 0.0295735, pt: 0.473176, qt: 0.946353, gal: 3.78541,
+  },
+  area: {
+    mm2: 0.000001, cm2: 0.0001, m2: 1, km2: 1000000, ha: 10000,
+    ft2: 0.09290304, yd2: 0.83612736, acre: 4046.8564224, mi2: 2589988.110336,
+    rai: 1600, ngan: 400, sqwa: 4, // Thai land units
+  },
+  time: {
+    ms: 0.001, s: 1, min: 60, h: 3600, day: 86400, week: 604800, year: 31557600,
+  },
+  speed: {
+    'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, knot: 0.514444, 'ft/s': 0.3048,
+  },
+  data: {
+    b: 1, kb: 1000, mb: 1e6, gb: 1e9, tb: 1e12,
+    kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4,
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  meter: 'm', meters: 'm', metre: 'm', kilometer: 'km', kilometers: 'km', centimeter: 'cm', millimeter: 'mm',
+  inch: 'in', inches: 'in', foot: 'ft', feet: 'ft', yard: 'yd', yards: 'yd', mile: 'mi', miles: 'mi',
+  gram: 'g', grams: 'g', kilogram: 'kg', kilograms: 'kg', tonne: 't', ton: 't', ounce: 'oz', pound: 'lb', pounds: 'lb', lbs: 'lb',
+  liter: 'l', litre: 'l', liters: 'l', milliliter: 'ml', gallon: 'gal', gallons: 'gal',
+  second: 's', seconds: 's', sec: 's', minute: 'min', minutes: 'min', hour: 'h', hours: 'h', hr: 'h', days: 'day', weeks: 'week', years: 'year',
+  kph: 'km/h', kmh: 'km/h', knots: 'knot',
+  byte: 'b', bytes: 'b',
+  celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f', kelvin: 'k',
+};
+
+const TEMPERATURE_UNITS = ['c', 'f', 'k'];
+
+const normalizeUnit = (unit: string) => {
+  const key = unit.trim().toLowerCase();
+  return ALIASES[key] || key;
+};
+
+const toCelsius = (value: number, unit: string) =>
+  unit === 'f' ? (value - 32) * 5 / 9 : unit === 'k' ? value - 273.15 : value;
+
+const fromCelsius = (value: number, unit: string) =>
+  unit === 'f' ? value * 9 / 5 + 32 : unit === 'k' ? value + 273.15 : value;
+
+export const SUPPORTED_UNITS = [
+  ...Object.values(CATEGORIES).flatMap(units => Object.keys(units)),
+  ...TEMPERATURE_UNITS,
+];
+
+/** Converts `value` between two units of the same category. Throws for unknown or mismatched units. */
+export const convertUnits = (value: number, from: string, to: string): { value: number; category: string } => {
+  const source = normalizeUnit(from);
+  const target = normalizeUnit(to);
+
+  if (TEMPERATURE_UNITS.includes(source) || TEMPERATURE_UNITS.includes(target)) {
+    if (!TEMPERATURE_UNITS.includes(source) || !TEMPERATURE_UNITS.includes(target)) {
+      throw new Error(`Cannot convert between "${from}" and "${to}"`);
+    }
+    return { value: fromCelsius(toCelsius(value, source), target), category: 'temperature' };
+  }
+
+  for (const [category, units] of Object.entries(CATEGORIES)) {
+    if (source in units && target in units) {
+      return { value: value * units[source] / units[target], category };
+    }
+  }
+
+  const known = (unit: string) => Object.values(CATEGORIES).some(units => unit in units);
+  if (!known(source)) throw new Error(`Unknown unit "${from}"`);
+  if (!known(target)) throw new Error(`Unknown unit "${to}"`);
+  throw new Error(`Cannot convert between "${from}" and "${to}"`);
+};